@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
@@ -9,10 +9,10 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { AlertCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { Report, Article, Source } from "@shared/schema";
+import type { FactCheckResult, ReviewQueueItem } from "@shared/schema";
 
 interface ContentReviewTableProps {
-  reports?: (Report & { article: Article; source?: Source })[];
+  reports?: ReviewQueueItem[];
   isLoading: boolean;
 }
 
@@ -24,10 +24,37 @@ const statusColors = {
   'rejected': 'bg-destructive text-destructive-foreground'
 };
 
+// The report sentence with the unconfirmed figure, date or name marked
+function ClaimInContext({ check }: { check: FactCheckResult }) {
+  const at = check.context ? check.context.indexOf(check.claim) : -1;
+  if (!check.context || at < 0) return <span>{check.context || check.claim}</span>;
+
+  return (
+    <span>
+      {check.context.slice(0, at)}
+      <mark className="bg-destructive/20 text-foreground rounded px-0.5">{check.claim}</mark>
+      {check.context.slice(at + check.claim.length)}
+    </span>
+  );
+}
+
 export default function ContentReviewTable({ reports, isLoading }: ContentReviewTableProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (reportId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(reportId)) {
+        next.delete(reportId);
+      } else {
+        next.add(reportId);
+      }
+      return next;
+    });
+  };
 
   const approveMutation = useMutation({
     mutationFn: async ({ articleId, notes }: { articleId: string; notes?: string }) => {
@@ -73,6 +100,77 @@ export default function ContentReviewTable({ reports, isLoading }: ContentReview
     }
   });
 
+  const reextractMutation = useMutation({
+    mutationFn: async (articleId: string) => {
+      const response = await apiRequest('POST', `/api/admin/articles/${articleId}/reextract`);
+      return response.json() as Promise<{ status: string; textLength: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reports/review'] });
+      toast({
+        title: "Re-extraction Complete",
+        description: data.status === 'extracted'
+          ? `Extracted ${data.textLength} characters from the stored snapshot.`
+          : `The stored snapshot was classified as ${data.status}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Re-extraction Failed",
+        description: error instanceof Error ? error.message : "Failed to re-extract article",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const rehumanizeMutation = useMutation({
+    mutationFn: async (articleId: string) => {
+      const response = await apiRequest('POST', `/api/admin/articles/${articleId}/rehumanize`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reports/review'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/queue-status'] });
+      toast({
+        title: "Re-humanization Queued",
+        description: "The report will be rewritten from the updated article.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Re-humanization Failed",
+        description: error instanceof Error ? error.message : "Failed to queue re-humanization",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleRehumanize = async (articleId: string) => {
+    setProcessingIds(prev => new Set(prev).add(articleId));
+    try {
+      await rehumanizeMutation.mutateAsync(articleId);
+    } finally {
+      setProcessingIds(prev => {
+        const next = new Set(prev);
+        next.delete(articleId);
+        return next;
+      });
+    }
+  };
+
+  const handleReextract = async (articleId: string) => {
+    setProcessingIds(prev => new Set(prev).add(articleId));
+    try {
+      await reextractMutation.mutateAsync(articleId);
+    } finally {
+      setProcessingIds(prev => {
+        const next = new Set(prev);
+        next.delete(articleId);
+        return next;
+      });
+    }
+  };
+
   const handleApprove = async (articleId: string) => {
     setProcessingIds(prev => new Set(prev).add(articleId));
     try {
@@ -164,70 +262,165 @@ export default function ContentReviewTable({ reports, isLoading }: ContentReview
               {reports.map((report) => {
                 const isProcessing = processingIds.has(report.article.id);
                 const statusColor = statusColors[report.article.status as keyof typeof statusColors] || statusColors.fetched;
+                const unverified = (report.checks?.factChecks || []).filter(check => !check.verified);
+                const isExpanded = expandedIds.has(report.id);
                 
                 return (
-                  <tr key={report.id} className="border-b border-border hover:bg-muted/30" data-testid={`review-row-${report.article.id}`}>
-                    <td className="p-4">
-                      <div>
-                        <p className="font-medium text-foreground" data-testid={`review-title-${report.article.id}`}>
-                          {report.article.title}
-                        </p>
-                        <p className="text-sm text-muted-foreground line-clamp-1" data-testid={`review-summary-${report.article.id}`}>
-                          {report.tldr || "Processing..."}
-                        </p>
-                      </div>
-                    </td>
+                  <Fragment key={report.id}>
+                    <tr className="border-b border-border hover:bg-muted/30" data-testid={`review-row-${report.article.id}`}>
+                      <td className="p-4">
+                        <div>
+                          <p className="font-medium text-foreground" data-testid={`review-title-${report.article.id}`}>
+                            {report.article.title}
+                          </p>
+                          <p className="text-sm text-muted-foreground line-clamp-1" data-testid={`review-summary-${report.article.id}`}>
+                            {report.tldr || "Processing..."}
+                          </p>
+                        </div>
+                      </td>
                     
-                    <td className="p-4 text-sm text-muted-foreground" data-testid={`review-source-${report.article.id}`}>
-                      {report.source?.name || 'Unknown'}
-                    </td>
+                      <td className="p-4 text-sm text-muted-foreground" data-testid={`review-source-${report.article.id}`}>
+                        {report.source?.name || 'Unknown'}
+                        {report.alsoCoveredBy && report.alsoCoveredBy.length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2"
+                            title={report.alsoCoveredBy.map(coverage => coverage.sourceName || coverage.url).join(', ')}
+                            data-testid={`review-cluster-${report.article.id}`}
+                          >
+                            +{report.alsoCoveredBy.length} sources
+                          </Badge>
+                        )}
+                      </td>
                     
-                    <td className="p-4">
-                      <Badge className={statusColor} data-testid={`review-status-${report.article.id}`}>
-                        {report.article.status}
-                      </Badge>
-                    </td>
+                      <td className="p-4">
+                        <Badge className={statusColor} data-testid={`review-status-${report.article.id}`}>
+                          {report.article.status}
+                        </Badge>
+                        {report.basis === 'feed-description' && (
+                          <Badge variant="outline" className="ml-2" data-testid={`review-teaser-${report.article.id}`}>
+                            Teaser only
+                          </Badge>
+                        )}
+                        {report.needsRehumanization && (
+                          <Badge variant="outline" className="ml-2" data-testid={`review-revised-${report.article.id}`}>
+                            Updated at source
+                          </Badge>
+                        )}
+                        {unverified.length > 0 && (
+                          <Badge
+                            variant="destructive"
+                            className="ml-2 cursor-pointer"
+                            onClick={() => toggleExpanded(report.id)}
+                            data-testid={`review-unverified-${report.article.id}`}
+                          >
+                            {unverified.length} unverified
+                          </Badge>
+                        )}
+                        {report.checks?.llmError && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2"
+                            title={report.checks.llmError}
+                            data-testid={`review-llm-check-failed-${report.article.id}`}
+                          >
+                            LLM check failed
+                          </Badge>
+                        )}
+                      </td>
                     
-                    <td className="p-4">
-                      <div className="flex items-center space-x-2">
-                        <Progress value={report.aiScore || 0} className="w-16" />
-                        <span className="text-sm text-muted-foreground" data-testid={`review-score-${report.article.id}`}>
-                          {report.aiScore || 0}%
-                        </span>
-                      </div>
-                    </td>
+                      <td className="p-4">
+                        <div className="flex items-center space-x-2">
+                          <Progress value={report.aiScore || 0} className="w-16" />
+                          <span className="text-sm text-muted-foreground" data-testid={`review-score-${report.article.id}`}>
+                            {report.aiScore || 0}%
+                          </span>
+                        </div>
+                        {report.promptVersion && (
+                          <p
+                            className="text-xs text-muted-foreground mt-1"
+                            title={report.inputTokens !== null ? `${report.inputTokens} input / ${report.outputTokens} output tokens` : undefined}
+                            data-testid={`review-provenance-${report.article.id}`}
+                          >
+                            Prompt v{report.promptVersion} · {report.model}
+                          </p>
+                        )}
+                      </td>
                     
-                    <td className="p-4">
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          size="sm"
-                          className="bg-accent text-accent-foreground hover:bg-accent/90"
-                          onClick={() => handleApprove(report.article.id)}
-                          disabled={isProcessing}
-                          data-testid={`approve-${report.article.id}`}
-                        >
-                          {isProcessing ? "..." : "Approve"}
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => handleReject(report.article.id)}
-                          disabled={isProcessing}
-                          data-testid={`reject-${report.article.id}`}
-                        >
-                          {isProcessing ? "..." : "Reject"}
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="secondary"
-                          disabled={isProcessing}
-                          data-testid={`edit-${report.article.id}`}
-                        >
-                          Edit
-                        </Button>
-                      </div>
-                    </td>
-                  </tr>
+                      <td className="p-4">
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            size="sm"
+                            className="bg-accent text-accent-foreground hover:bg-accent/90"
+                            onClick={() => handleApprove(report.article.id)}
+                            disabled={isProcessing}
+                            title={unverified.length > 0 ? `${unverified.length} claims are not confirmed by the source article` : undefined}
+                            data-testid={`approve-${report.article.id}`}
+                          >
+                            {isProcessing ? "..." : "Approve"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleReject(report.article.id)}
+                            disabled={isProcessing}
+                            data-testid={`reject-${report.article.id}`}
+                          >
+                            {isProcessing ? "..." : "Reject"}
+                          </Button>
+                          {report.needsRehumanization && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRehumanize(report.article.id)}
+                              disabled={isProcessing}
+                              title="The publisher changed this article; rewrite the report from the new text"
+                              data-testid={`rehumanize-${report.article.id}`}
+                            >
+                              {isProcessing ? "..." : "Re-humanize"}
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReextract(report.article.id)}
+                            disabled={isProcessing}
+                            title="Re-run extraction on the stored HTML snapshot"
+                            data-testid={`reextract-${report.article.id}`}
+                          >
+                            {isProcessing ? "..." : "Re-extract"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            disabled={isProcessing}
+                            data-testid={`edit-${report.article.id}`}
+                          >
+                            Edit
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && unverified.length > 0 && (
+                      <tr className="border-b border-border bg-destructive/5" data-testid={`review-unverified-list-${report.article.id}`}>
+                        <td colSpan={5} className="p-4">
+                          <p className="text-sm font-medium text-foreground mb-2">
+                            Not confirmed by the source article
+                          </p>
+                          <ul className="space-y-2">
+                            {unverified.map((check, i) => (
+                              <li key={i} className="text-sm text-muted-foreground flex items-start">
+                                <Badge variant="outline" className="mr-2 shrink-0">
+                                  {check.method === 'rule' ? check.kind : 'LLM'}
+                                </Badge>
+                                <ClaimInContext check={check} />
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 );
               })}
             </tbody>
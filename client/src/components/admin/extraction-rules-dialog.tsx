@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, Play } from "lucide-react";
+import type { ExtractionPreview, Source, SourceExtractionRules } from "@shared/schema";
+
+interface ExtractionRulesDialogProps {
+  source: Source | null;
+  onClose: () => void;
+}
+
+const selectorFields: { key: keyof Omit<SourceExtractionRules, 'excludeSelectors'>; label: string; placeholder: string }[] = [
+  { key: 'contentSelector', label: 'Content selector', placeholder: 'div.article-body' },
+  { key: 'authorSelector', label: 'Author selector', placeholder: '.byline a[rel="author"]' },
+  { key: 'dateSelector', label: 'Date selector', placeholder: 'time[datetime]' },
+  { key: 'paginationSelector', label: 'Next page selector', placeholder: 'a.next-page' },
+];
+
+export default function ExtractionRulesDialog({ source, onClose }: ExtractionRulesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectors, setSelectors] = useState<Record<string, string>>({});
+  const [excludeSelectors, setExcludeSelectors] = useState("");
+  const [testUrl, setTestUrl] = useState("");
+  const [testHtml, setTestHtml] = useState("");
+  const [preview, setPreview] = useState<ExtractionPreview | null>(null);
+
+  useEffect(() => {
+    const rules = source?.extractionRules || {};
+    setSelectors({
+      contentSelector: rules.contentSelector || '',
+      authorSelector: rules.authorSelector || '',
+      dateSelector: rules.dateSelector || '',
+      paginationSelector: rules.paginationSelector || '',
+    });
+    setExcludeSelectors((rules.excludeSelectors || []).join('\n'));
+    setTestUrl(source ? `https://${source.domain}/` : '');
+    setTestHtml('');
+    setPreview(null);
+  }, [source]);
+
+  const buildRules = (): SourceExtractionRules => {
+    const rules: SourceExtractionRules = {};
+    selectorFields.forEach(({ key }) => {
+      const value = selectors[key]?.trim();
+      if (value) rules[key] = value;
+    });
+    const excludes = excludeSelectors.split('\n').map(line => line.trim()).filter(Boolean);
+    if (excludes.length > 0) rules.excludeSelectors = excludes;
+    return rules;
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const body = testHtml.trim()
+        ? { html: testHtml, rules: buildRules() }
+        : { url: testUrl.trim(), rules: buildRules() };
+      const response = await apiRequest('POST', `/api/admin/sources/${source!.id}/extraction-preview`, body);
+      return response.json() as Promise<ExtractionPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error) => {
+      toast({
+        title: "Preview Failed",
+        description: error instanceof Error ? error.message : "Failed to preview extraction",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const rules = buildRules();
+      const response = await apiRequest('PATCH', `/api/admin/sources/${source!.id}`, {
+        extractionRules: Object.keys(rules).length > 0 ? rules : null
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sources'] });
+      toast({
+        title: "Rules Saved",
+        description: "New articles from this source will use these extraction rules.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save extraction rules",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Extraction rules for {source?.name}</DialogTitle>
+          <DialogDescription>
+            CSS selectors tried before the generic extractor. Leave a field empty to use automatic detection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {selectorFields.map(({ key, label, placeholder }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`rule-${key}`}>{label}</Label>
+              <Input
+                id={`rule-${key}`}
+                value={selectors[key] || ''}
+                placeholder={placeholder}
+                onChange={(e) => setSelectors({ ...selectors, [key]: e.target.value })}
+                data-testid={`rule-${key}`}
+              />
+            </div>
+          ))}
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="rule-excludeSelectors">Remove elements (one selector per line)</Label>
+            <Textarea
+              id="rule-excludeSelectors"
+              rows={3}
+              value={excludeSelectors}
+              placeholder={".newsletter-inline\n.related-links"}
+              onChange={(e) => setExcludeSelectors(e.target.value)}
+              data-testid="rule-excludeSelectors"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2 border-t border-border pt-4">
+          <Label htmlFor="rule-test-url">Test against</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="rule-test-url"
+              value={testUrl}
+              placeholder="https://example.com/some-article"
+              onChange={(e) => setTestUrl(e.target.value)}
+              disabled={!!testHtml.trim()}
+              data-testid="rule-test-url"
+            />
+            <Button
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending || (!testUrl.trim() && !testHtml.trim())}
+              data-testid="rule-preview"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {previewMutation.isPending ? 'Running...' : 'Preview'}
+            </Button>
+          </div>
+          <Textarea
+            rows={3}
+            value={testHtml}
+            placeholder="...or paste saved page HTML"
+            onChange={(e) => setTestHtml(e.target.value)}
+            data-testid="rule-test-html"
+          />
+        </div>
+
+        {preview && (
+          <div className="space-y-3" data-testid="rule-preview-result">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant={preview.method === 'rules' ? 'default' : 'secondary'}>
+                {preview.method === 'rules' ? 'Source rules' : 'Generic extractor'}
+              </Badge>
+              <span className="text-muted-foreground">
+                {preview.text.length} characters · {preview.blockCount} blocks
+              </span>
+              {preview.authors.length > 0 && (
+                <span className="text-muted-foreground">· {preview.authors.join(', ')}</span>
+              )}
+              {preview.publishedAt && (
+                <span className="text-muted-foreground">· {format(new Date(preview.publishedAt), "PPp")}</span>
+              )}
+            </div>
+
+            {preview.nextPageUrl && (
+              <p className="text-sm text-muted-foreground break-all">Next page: {preview.nextPageUrl}</p>
+            )}
+
+            {preview.warnings.map((warning, index) => (
+              <Alert key={index} variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{warning}</AlertDescription>
+              </Alert>
+            ))}
+
+            <pre className="whitespace-pre-wrap text-sm bg-muted/50 border border-border rounded-lg p-4 max-h-80 overflow-y-auto">
+              {preview.text || 'No text extracted.'}
+            </pre>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="rule-save"
+          >
+            Save Rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil } from "lucide-react";
+import type { PromptSummary } from "@shared/schema";
+
+interface PromptManagementProps {
+  prompts?: PromptSummary[];
+  isLoading: boolean;
+}
+
+export default function PromptManagement({ prompts, isLoading }: PromptManagementProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<PromptSummary | null>(null);
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [userPrompt, setUserPrompt] = useState("");
+  const [model, setModel] = useState("");
+  const [responseSchema, setResponseSchema] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const openEditor = (prompt: PromptSummary) => {
+    const current = prompt.versions.find(version => version.isActive) || prompt.versions[0];
+    setSystemPrompt(current?.systemPrompt || '');
+    setUserPrompt(current?.userPrompt || '');
+    setModel(current?.model || '');
+    setResponseSchema(current ? JSON.stringify(current.responseSchema, null, 2) : '');
+    setNotes('');
+    setEditing(prompt);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      let schema: Record<string, any>;
+      try {
+        schema = JSON.parse(responseSchema);
+      } catch (error) {
+        throw new Error('Response schema is not valid JSON');
+      }
+      const response = await apiRequest('POST', `/api/admin/prompts/${editing!.name}/versions`, {
+        systemPrompt,
+        userPrompt,
+        model: model.trim() || null,
+        responseSchema: schema,
+        notes: notes.trim() || null
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/prompts'] });
+      toast({
+        title: "Prompt Saved",
+        description: `Version ${data.version} of ${data.name} is now active.`,
+      });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save prompt",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async ({ name, id }: { name: string; id: string }) => {
+      const response = await apiRequest('POST', `/api/admin/prompts/${name}/versions/${id}/activate`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/prompts'] });
+      toast({
+        title: "Prompt Activated",
+        description: `New reports will use version ${data.version} of ${data.name}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Activation Failed",
+        description: error instanceof Error ? error.message : "Failed to activate prompt version",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Prompt Templates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card data-testid="prompt-management">
+      <CardHeader>
+        <CardTitle>Prompt Templates</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(prompts || []).map((prompt) => (
+          <div key={prompt.name} className="border border-border rounded-lg p-4 space-y-3" data-testid={`prompt-${prompt.name}`}>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-foreground">{prompt.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  Variables: {prompt.variables.map(variable => `{{${variable}}}`).join(', ')}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => openEditor(prompt)} data-testid={`edit-prompt-${prompt.name}`}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {prompt.versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between text-sm" data-testid={`prompt-version-${version.id}`}>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">v{version.version}</span>
+                    {version.isActive && <Badge>Active</Badge>}
+                    {version.model && <Badge variant="outline">{version.model}</Badge>}
+                    <span className="text-muted-foreground">
+                      {version.createdAt ? format(new Date(version.createdAt), "PPp") : ''}
+                      {version.notes ? ` · ${version.notes}` : ''}
+                    </span>
+                  </div>
+                  {!version.isActive && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => activateMutation.mutate({ name: prompt.name, id: version.id })}
+                      disabled={activateMutation.isPending}
+                      data-testid={`activate-prompt-${version.id}`}
+                    >
+                      Activate
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit {editing?.name} prompt</DialogTitle>
+            <DialogDescription>
+              Saving stores a new version and makes it active; reports keep the version that wrote them.
+              Available variables: {editing?.variables.map(variable => `{{${variable}}}`).join(', ')}.
+              Wrap text in {'{{#variable}}...{{/variable}}'} to include it only when the variable is set.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="prompt-system">System prompt</Label>
+              <Textarea
+                id="prompt-system"
+                rows={12}
+                className="font-mono text-sm"
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                data-testid="prompt-system"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-user">User prompt</Label>
+              <Textarea
+                id="prompt-user"
+                rows={8}
+                className="font-mono text-sm"
+                value={userPrompt}
+                onChange={(e) => setUserPrompt(e.target.value)}
+                data-testid="prompt-user"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="prompt-model">Target model</Label>
+                <Input
+                  id="prompt-model"
+                  value={model}
+                  placeholder="Configured model for this task"
+                  onChange={(e) => setModel(e.target.value)}
+                  data-testid="prompt-model"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="prompt-notes">Change notes</Label>
+                <Input
+                  id="prompt-notes"
+                  value={notes}
+                  placeholder="What changed and why"
+                  onChange={(e) => setNotes(e.target.value)}
+                  data-testid="prompt-notes"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-schema">Response schema (JSON)</Label>
+              <Textarea
+                id="prompt-schema"
+                rows={8}
+                className="font-mono text-sm"
+                value={responseSchema}
+                onChange={(e) => setResponseSchema(e.target.value)}
+                data-testid="prompt-schema"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              data-testid="prompt-save"
+            >
+              Save New Version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Search } from "lucide-react";
+
+interface DiscoveredFeed {
+  url: string;
+  type: 'rss' | 'sitemap';
+  format: string;
+  title?: string;
+  itemCount: number;
+  sampleTitles: string[];
+  latestItemAt?: string;
+  discoveredVia: string;
+  score: number;
+  suggestedSource: {
+    name: string;
+    domain: string;
+    type: 'rss' | 'sitemap';
+    rssUrl?: string;
+    sitemapUrl?: string;
+  };
+}
+
+interface DiscoveryResult {
+  siteUrl: string;
+  siteTitle?: string;
+  feeds: DiscoveredFeed[];
+}
+
+export default function SourceDiscovery() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [siteUrl, setSiteUrl] = useState("");
+  const [category, setCategory] = useState("general");
+  const [result, setResult] = useState<DiscoveryResult | null>(null);
+
+  const discoverMutation = useMutation({
+    mutationFn: async (url: string) => {
+      const response = await apiRequest('POST', '/api/admin/sources/discover', { url });
+      return response.json() as Promise<DiscoveryResult>;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.feeds.length === 0) {
+        toast({
+          title: "No Feeds Found",
+          description: "No valid feed or sitemap was found for this site.",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Discovery Failed",
+        description: error instanceof Error ? error.message : "Failed to discover feeds",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (feed: DiscoveredFeed) => {
+      const response = await apiRequest('POST', '/api/admin/sources', {
+        ...feed.suggestedSource,
+        category: category.trim().toLowerCase() || 'general'
+      });
+      return response.json();
+    },
+    onSuccess: (_, feed) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sources'] });
+      toast({
+        title: "Source Added",
+        description: `${feed.suggestedSource.name} will be fetched on the next cycle.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Add Failed",
+        description: error instanceof Error ? error.message : "Failed to add source",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleDiscover = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!siteUrl.trim()) return;
+    setResult(null);
+    discoverMutation.mutate(siteUrl.trim());
+  };
+
+  return (
+    <Card data-testid="source-discovery">
+      <CardHeader>
+        <CardTitle>Add Source</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleDiscover} className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="discover-url">Publisher homepage</Label>
+            <Input
+              id="discover-url"
+              placeholder="https://example.com"
+              value={siteUrl}
+              onChange={(e) => setSiteUrl(e.target.value)}
+              data-testid="discover-url"
+            />
+          </div>
+          <div className="space-y-2 md:w-48">
+            <Label htmlFor="discover-category">Category</Label>
+            <Input
+              id="discover-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              data-testid="discover-category"
+            />
+          </div>
+          <Button type="submit" disabled={discoverMutation.isPending || !siteUrl.trim()} data-testid="discover-submit">
+            <Search className="w-4 h-4 mr-2" />
+            {discoverMutation.isPending ? 'Discovering...' : 'Discover'}
+          </Button>
+        </form>
+
+        {result && result.feeds.length > 0 && (
+          <div className="space-y-3">
+            {result.feeds.map((feed) => (
+              <div key={feed.url} className="flex items-start justify-between gap-4 p-4 border border-border rounded-lg" data-testid={`discovered-feed-${feed.url}`}>
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground">{feed.title || feed.suggestedSource.name}</span>
+                    <Badge variant="secondary">{feed.format}</Badge>
+                    <Badge variant="outline">{feed.discoveredVia}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">{feed.url}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {feed.itemCount} items
+                    {feed.latestItemAt && ` · latest ${formatDistanceToNow(new Date(feed.latestItemAt), { addSuffix: true })}`}
+                  </p>
+                  {feed.sampleTitles.length > 0 && (
+                    <ul className="text-sm text-muted-foreground list-disc pl-5">
+                      {feed.sampleTitles.map((title) => (
+                        <li key={title} className="truncate">{title}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => createMutation.mutate(feed)}
+                  disabled={createMutation.isPending}
+                  data-testid={`discovered-feed-add-${feed.url}`}
+                >
+                  Add Source
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,350 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, RefreshCw } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import ExtractionRulesDialog from "./extraction-rules-dialog";
+import type { SourceWithStats } from "@shared/schema";
+
+interface SourceManagementProps {
+  sources?: SourceWithStats[];
+  isLoading: boolean;
+}
+
+export default function SourceManagement({ sources, isLoading }: SourceManagementProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<SourceWithStats | null>(null);
+  const [editCategory, setEditCategory] = useState("");
+  const [editRateLimit, setEditRateLimit] = useState("");
+  const [deleting, setDeleting] = useState<SourceWithStats | null>(null);
+  const [editingRules, setEditingRules] = useState<SourceWithStats | null>(null);
+
+  const invalidateSources = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/sources'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/source-health'] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, unknown> }) => {
+      const response = await apiRequest('PATCH', `/api/admin/sources/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSources();
+      toast({
+        title: "Source Updated",
+        description: "The source settings have been saved.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update source",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/admin/sources/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSources();
+      toast({
+        title: "Source Deleted",
+        description: "The source has been removed. Existing articles are kept.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Failed to delete source",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const fetchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/admin/fetch/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/queue-status'] });
+      toast({
+        title: "Fetch Queued",
+        description: "A fetch job has been created for this source.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fetch Failed",
+        description: error instanceof Error ? error.message : "Failed to queue fetch job",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const openEditor = (source: SourceWithStats) => {
+    setEditing(source);
+    setEditCategory(source.category);
+    setEditRateLimit(String(source.rateLimitPerHour ?? 100));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    await updateMutation.mutateAsync({
+      id: editing.id,
+      updates: {
+        category: editCategory.trim(),
+        rateLimitPerHour: parseInt(editRateLimit, 10) || 1
+      }
+    });
+    setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteMutation.mutateAsync(deleting.id);
+    setDeleting(null);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>News Sources</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                <div className="space-y-2 flex-1">
+                  <Skeleton className="h-5 w-1/3" />
+                  <Skeleton className="h-4 w-1/4" />
+                </div>
+                <Skeleton className="h-8 w-24" />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!sources || sources.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>News Sources</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              No sources have been configured yet.
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card data-testid="source-management">
+      <CardHeader>
+        <CardTitle>News Sources ({sources.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="text-left p-4 text-sm font-medium text-muted-foreground">Source</th>
+                <th className="text-left p-4 text-sm font-medium text-muted-foreground">Category</th>
+                <th className="text-left p-4 text-sm font-medium text-muted-foreground">Last Fetch</th>
+                <th className="text-left p-4 text-sm font-medium text-muted-foreground">Errors</th>
+                <th className="text-left p-4 text-sm font-medium text-muted-foreground">Articles</th>
+                <th className="text-left p-4 text-sm font-medium text-muted-foreground">Active</th>
+                <th className="text-left p-4 text-sm font-medium text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sources.map((source) => (
+                <tr key={source.id} className="border-b border-border hover:bg-muted/30" data-testid={`source-row-${source.id}`}>
+                  <td className="p-4">
+                    <p className="font-medium text-foreground" data-testid={`source-name-${source.id}`}>
+                      {source.name}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {source.domain} · {source.type}
+                    </p>
+                  </td>
+
+                  <td className="p-4">
+                    <Badge variant="secondary">{source.category}</Badge>
+                  </td>
+
+                  <td className="p-4 text-sm text-muted-foreground" data-testid={`source-last-fetch-${source.id}`}>
+                    {source.lastFetchedAt
+                      ? formatDistanceToNow(new Date(source.lastFetchedAt), { addSuffix: true })
+                      : 'Never'}
+                  </td>
+
+                  <td className="p-4 text-sm" data-testid={`source-errors-${source.id}`}>
+                    <span className={source.errorCount > 0 ? 'text-destructive font-medium' : 'text-muted-foreground'}>
+                      {source.errorCount}
+                    </span>
+                  </td>
+
+                  <td className="p-4 text-sm text-muted-foreground" data-testid={`source-articles-${source.id}`}>
+                    {source.articleCount}
+                  </td>
+
+                  <td className="p-4">
+                    <Switch
+                      checked={!!source.isActive}
+                      onCheckedChange={(checked) => updateMutation.mutate({ id: source.id, updates: { isActive: checked } })}
+                      disabled={updateMutation.isPending}
+                      data-testid={`source-active-${source.id}`}
+                    />
+                  </td>
+
+                  <td className="p-4">
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={() => fetchMutation.mutate(source.id)}
+                        disabled={fetchMutation.isPending}
+                        data-testid={`source-fetch-${source.id}`}
+                      >
+                        <RefreshCw className="w-3 h-3 mr-1" />
+                        Fetch Now
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => openEditor(source)}
+                        data-testid={`source-edit-${source.id}`}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditingRules(source)}
+                        data-testid={`source-rules-${source.id}`}
+                      >
+                        Rules
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setDeleting(source)}
+                        data-testid={`source-delete-${source.id}`}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+
+      {/* Edit Source */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {editing?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="source-category">Category</Label>
+              <Input
+                id="source-category"
+                value={editCategory}
+                onChange={(e) => setEditCategory(e.target.value)}
+                data-testid="source-edit-category"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source-rate-limit">Rate limit (requests per hour)</Label>
+              <Input
+                id="source-rate-limit"
+                type="number"
+                min={1}
+                value={editRateLimit}
+                onChange={(e) => setEditRateLimit(e.target.value)}
+                data-testid="source-edit-rate-limit"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={updateMutation.isPending || !editCategory.trim()}
+              data-testid="source-edit-save"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ExtractionRulesDialog source={editingRules} onClose={() => setEditingRules(null)} />
+
+      {/* Delete Source */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The source will stop being fetched. Articles already collected from it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} data-testid="source-delete-confirm">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,16 +1,48 @@
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { QueueStatus, ApiUsage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { AlertCircle } from "lucide-react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import type { QueueStatus, ApiUsage, SourceHealthSummary, SourceHealthStatus } from "@shared/schema";
 
 interface SystemStatusProps {
   queueStatus?: QueueStatus;
   apiUsage?: ApiUsage;
+  sourceHealth?: SourceHealthSummary;
   isLoading: boolean;
 }
 
-export default function SystemStatus({ queueStatus, apiUsage, isLoading }: SystemStatusProps) {
+const healthBadgeVariant: Record<SourceHealthStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  'healthy': 'secondary',
+  'degraded': 'outline',
+  'backing-off': 'default',
+  'disabled': 'destructive'
+};
+
+const chartConfig = {
+  costUsd: { label: "Cost (USD)", color: "var(--chart-1)" },
+  tokens: { label: "Tokens", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+function formatUsd(value: number): string {
+  return `$${value >= 1 || value === 0 ? value.toFixed(2) : value.toFixed(4)}`;
+}
+
+export default function SystemStatus({ queueStatus, apiUsage, sourceHealth, isLoading }: SystemStatusProps) {
+  const [chartMetric, setChartMetric] = useState<'costUsd' | 'tokens'>('costUsd');
+
+  const chartData = useMemo(() => (apiUsage?.llm.daily || []).map(entry => ({
+    day: entry.key ? format(parseISO(entry.key), "MMM d") : '',
+    costUsd: Number(entry.costUsd.toFixed(4)),
+    tokens: entry.inputTokens + entry.outputTokens
+  })), [apiUsage]);
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -32,7 +64,7 @@ export default function SystemStatus({ queueStatus, apiUsage, isLoading }: Syste
 
         <Card>
           <CardHeader>
-            <CardTitle>API Usage</CardTitle>
+            <CardTitle>API Usage Today</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -59,9 +91,20 @@ export default function SystemStatus({ queueStatus, apiUsage, isLoading }: Syste
     { label: 'Fact Checkers', value: queueStatus?.factCheckers || 0, status: 'active' }
   ];
 
-  const geminiUsagePercent = apiUsage ? (apiUsage.geminiCalls / apiUsage.geminiLimit) * 100 : 0;
+  const today = apiUsage?.llm.today;
+  const budget = apiUsage?.llm.budget;
+  const costPercent = budget?.dailyCostBudgetUsd ? Math.min(100, (budget.costUsd / budget.dailyCostBudgetUsd) * 100) : 0;
+  const tokenPercent = budget?.dailyTokenBudget ? Math.min(100, (budget.tokens / budget.dailyTokenBudget) * 100) : 0;
   const newsApiUsagePercent = apiUsage ? (apiUsage.newsApiRequests / apiUsage.newsApiLimit) * 100 : 0;
 
+  const healthCounts = [
+    { label: 'Healthy', value: sourceHealth?.healthy || 0 },
+    { label: 'Degraded', value: sourceHealth?.degraded || 0 },
+    { label: 'Backing Off', value: sourceHealth?.backingOff || 0 },
+    { label: 'Disabled', value: sourceHealth?.disabled || 0 }
+  ];
+  const unhealthySources = (sourceHealth?.sources || []).filter(source => source.status !== 'healthy');
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6" data-testid="system-status">
       {/* Job Queue Status */}
@@ -91,19 +134,49 @@ export default function SystemStatus({ queueStatus, apiUsage, isLoading }: Syste
       {/* API Usage Statistics */}
       <Card>
         <CardHeader>
-          <CardTitle>API Usage</CardTitle>
+          <CardTitle>API Usage Today</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {/* Gemini API */}
+            {budget?.exceeded && (
+              <Alert variant="destructive" data-testid="llm-budget-exceeded">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Daily LLM budget used up. Humanization is paused
+                  {budget.resumesAt ? ` until ${format(new Date(budget.resumesAt), "PPp")}` : ''}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* LLM calls */}
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">LLM Calls</span>
+              <span className="text-sm font-medium" data-testid="llm-calls">
+                {today?.calls || 0}
+                {today?.failedCalls ? ` (${today.failedCalls} failed)` : ''}
+              </span>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Gemini API Calls</span>
-                <span className="text-sm font-medium" data-testid="gemini-usage">
-                  {apiUsage?.geminiCalls || 0} / {apiUsage?.geminiLimit || 0}
+                <span className="text-sm text-muted-foreground">Estimated Cost</span>
+                <span className="text-sm font-medium" data-testid="llm-cost">
+                  {formatUsd(today?.costUsd || 0)}
+                  {budget?.dailyCostBudgetUsd ? ` / ${formatUsd(budget.dailyCostBudgetUsd)}` : ''}
                 </span>
               </div>
-              <Progress value={geminiUsagePercent} className="w-full" />
+              {budget?.dailyCostBudgetUsd && <Progress value={costPercent} className="w-full" />}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">LLM Tokens</span>
+                <span className="text-sm font-medium" data-testid="llm-tokens">
+                  {(budget?.tokens || 0).toLocaleString()}
+                  {budget?.dailyTokenBudget ? ` / ${budget.dailyTokenBudget.toLocaleString()}` : ''}
+                </span>
+              </div>
+              {budget?.dailyTokenBudget && <Progress value={tokenPercent} className="w-full" />}
             </div>
 
             {/* News API */}
@@ -116,15 +189,125 @@ export default function SystemStatus({ queueStatus, apiUsage, isLoading }: Syste
               </div>
               <Progress value={newsApiUsagePercent} className="w-full" />
             </div>
+          </div>
+        </CardContent>
+      </Card>
 
-            {/* Database Operations */}
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Database Operations</span>
-              <span className="text-sm font-medium" data-testid="db-operations">
-                {apiUsage?.mongoOperations?.toLocaleString() || 0}
-              </span>
-            </div>
+      {/* LLM usage over the last 30 days */}
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>LLM Usage (30 days)</CardTitle>
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              variant={chartMetric === 'costUsd' ? 'default' : 'outline'}
+              onClick={() => setChartMetric('costUsd')}
+              data-testid="llm-chart-cost"
+            >
+              Cost
+            </Button>
+            <Button
+              size="sm"
+              variant={chartMetric === 'tokens' ? 'default' : 'outline'}
+              onClick={() => setChartMetric('tokens')}
+              data-testid="llm-chart-tokens"
+            >
+              Tokens
+            </Button>
           </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto" data-testid="llm-usage-chart">
+            <BarChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={60}
+                tickFormatter={(value: number) => chartMetric === 'costUsd' ? formatUsd(value) : value.toLocaleString()}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey={chartMetric} fill={`var(--color-${chartMetric})`} radius={2} />
+            </BarChart>
+          </ChartContainer>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {[
+              { title: 'By task', rows: (apiUsage?.llm.byTask || []).map(entry => ({ ...entry, label: entry.key || 'unknown' })) },
+              { title: 'By source', rows: (apiUsage?.llm.bySource || []).map(entry => ({ ...entry, label: entry.sourceName || entry.key || 'unknown' })) }
+            ].map(({ title, rows }) => (
+              <div key={title} className="space-y-2">
+                <p className="text-sm font-medium">{title}</p>
+                {rows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No LLM calls yet.</p>
+                ) : (
+                  rows.slice(0, 8).map(row => (
+                    <div key={row.label} className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground truncate mr-4">{row.label}</span>
+                      <span className="whitespace-nowrap">
+                        {row.calls} calls · {(row.inputTokens + row.outputTokens).toLocaleString()} tokens · {formatUsd(row.costUsd)}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Source Health */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Source Health</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {healthCounts.map((item) => (
+              <div key={item.label} className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">{item.label}</span>
+                <span className="text-sm font-medium" data-testid={`source-health-${item.label.toLowerCase().replace(/\s+/g, '-')}`}>
+                  {item.value}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {unhealthySources.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              All sources are fetching normally.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {unhealthySources.map((source) => (
+                <div key={source.id} className="p-3 border border-border rounded-lg space-y-1" data-testid={`source-health-row-${source.id}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{source.name}</span>
+                    <Badge variant={healthBadgeVariant[source.status]}>
+                      {source.status}
+                    </Badge>
+                  </div>
+                  {source.health?.lastError && (
+                    <p className="text-sm text-destructive">{source.health.lastError}</p>
+                  )}
+                  <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                    <span>{source.health?.consecutiveFailures || 0} / {sourceHealth?.failureThreshold} failures</span>
+                    <span>{Math.round(source.health?.avgLatencyMs || 0)} ms avg</span>
+                    <span>{(source.health?.avgItemsPerFetch || 0).toFixed(1)} items/fetch</span>
+                    <span>
+                      Last success: {source.health?.lastSuccessAt
+                        ? formatDistanceToNow(new Date(source.health.lastSuccessAt), { addSuffix: true })
+                        : 'never'}
+                    </span>
+                    {source.status === 'backing-off' && source.health?.backoffUntil && (
+                      <span>Retry {formatDistanceToNow(new Date(source.health.backoffUntil), { addSuffix: true })}</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,7 +1,7 @@
 import { format } from "date-fns";
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { CheckCircle } from "lucide-react";
 import type { ArticleWithReport } from "@shared/schema";
 
@@ -29,14 +29,14 @@ const categoryColors = {
 
 export default function ArticleCard({ article }: ArticleCardProps) {
   const categoryKey = article.category?.toLowerCase() as keyof typeof categoryImages;
-  const imageUrl = categoryImages[categoryKey] || categoryImages.default;
+  const imageUrl = article.metadata?.imageUrl || categoryImages[categoryKey] || categoryImages.default;
   const categoryColor = categoryColors[categoryKey] || categoryColors.default;
 
   return (
     <article className="bg-card border border-border rounded-lg overflow-hidden hover:shadow-lg transition-shadow" data-testid={`article-card-${article.id}`}>
       <img 
         src={imageUrl}
-        alt={`${article.category} news image`}
+        alt={article.metadata?.imageUrl ? article.title : `${article.category} news image`}
         className="w-full h-48 object-cover"
         data-testid={`article-image-${article.id}`}
       />
@@ -70,16 +70,12 @@ export default function ArticleCard({ article }: ArticleCardProps) {
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2 text-xs text-muted-foreground">
             <Avatar className="w-4 h-4">
-              <AvatarImage 
-                src="https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?ixlib=rb-4.0.3&w=24&h=24&fit=crop&crop=face"
-                alt="Author profile"
-              />
               <AvatarFallback>
                 {article.authors?.[0]?.split(' ').map(n => n[0]).join('') || 'A'}
               </AvatarFallback>
             </Avatar>
             <span data-testid={`article-author-${article.id}`}>
-              {article.authors?.[0] || article.source?.name || 'NewsAI Team'}
+              {article.authors?.[0] || article.metadata?.publisher || article.source?.name || 'NewsAI Team'}
             </span>
           </div>
           
@@ -2,7 +2,7 @@ import { format } from "date-fns";
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { CheckCircle } from "lucide-react";
 import type { ArticleWithReport } from "@shared/schema";
 
@@ -15,8 +15,8 @@ export default function ArticleHero({ article }: ArticleHeroProps) {
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-center">
       <div>
         <img
-          src="https://images.unsplash.com/photo-1635070041078-e363dbe005cb?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400"
-          alt="Quantum computing lab with advanced processors"
+          src={article.metadata?.imageUrl || "https://images.unsplash.com/photo-1635070041078-e363dbe005cb?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400"}
+          alt={article.title}
           className="rounded-xl shadow-lg w-full h-64 object-cover"
           data-testid="hero-image"
         />
@@ -58,16 +58,12 @@ export default function ArticleHero({ article }: ArticleHeroProps) {
           </Link>
           <div className="flex items-center space-x-2 text-sm text-muted-foreground">
             <Avatar className="w-6 h-6">
-              <AvatarImage 
-                src="https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?ixlib=rb-4.0.3&w=32&h=32&fit=crop&crop=face"
-                alt="Author profile"
-              />
               <AvatarFallback>
                 {article.authors?.[0]?.split(' ').map(n => n[0]).join('') || 'A'}
               </AvatarFallback>
             </Avatar>
             <span data-testid="hero-author">
-              {article.authors?.[0] || article.source?.name || 'NewsAI Team'}
+              {article.authors?.[0] || article.metadata?.publisher || article.source?.name || 'NewsAI Team'}
             </span>
           </div>
         </div>
@@ -5,11 +5,15 @@ import { useLocation } from "wouter";
 import DashboardStats from "@/components/admin/dashboard-stats";
 import ContentReviewTable from "@/components/admin/content-review-table";
 import SystemStatus from "@/components/admin/system-status";
+import SourceManagement from "@/components/admin/source-management";
+import SourceDiscovery from "@/components/admin/source-discovery";
+import PromptManagement from "@/components/admin/prompt-management";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertCircle, LogOut } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { ApiUsage, PromptSummary, SourceHealthSummary, SourceWithStats } from "@shared/schema";
 
 export default function AdminDashboard() {
   const { user, logout } = useAuth();
@@ -37,12 +41,28 @@ export default function AdminDashboard() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
-  const { data: apiUsage, isLoading: apiLoading } = useQuery({
+  const { data: apiUsage, isLoading: apiLoading } = useQuery<ApiUsage>({
     queryKey: ['/api/admin/api-usage'],
     enabled: !!user && user.role === 'admin',
     refetchInterval: 60000, // Refresh every minute
   });
 
+  const { data: sourceHealth, isLoading: sourceHealthLoading } = useQuery<SourceHealthSummary>({
+    queryKey: ['/api/admin/source-health'],
+    enabled: !!user && user.role === 'admin',
+    refetchInterval: 60000,
+  });
+
+  const { data: sources, isLoading: sourcesLoading } = useQuery<SourceWithStats[]>({
+    queryKey: ['/api/admin/sources'],
+    enabled: !!user && user.role === 'admin',
+  });
+
+  const { data: prompts, isLoading: promptsLoading } = useQuery<PromptSummary[]>({
+    queryKey: ['/api/admin/prompts'],
+    enabled: !!user && user.role === 'admin',
+  });
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -102,9 +122,15 @@ export default function AdminDashboard() {
       </div>
 
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className={`grid w-full ${user.role === 'admin' ? 'grid-cols-5' : 'grid-cols-2'}`}>
           <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
           <TabsTrigger value="review" data-testid="tab-review">Content Review</TabsTrigger>
+          {user.role === 'admin' && (
+            <TabsTrigger value="sources" data-testid="tab-sources">Sources</TabsTrigger>
+          )}
+          {user.role === 'admin' && (
+            <TabsTrigger value="prompts" data-testid="tab-prompts">Prompts</TabsTrigger>
+          )}
           {user.role === 'admin' && (
             <TabsTrigger value="system" data-testid="tab-system">System Status</TabsTrigger>
           )}
@@ -140,13 +166,29 @@ export default function AdminDashboard() {
           <ContentReviewTable reports={reports} isLoading={reportsLoading} />
         </TabsContent>
 
+        {/* Sources Tab */}
+        {user.role === 'admin' && (
+          <TabsContent value="sources" className="space-y-6">
+            <SourceDiscovery />
+            <SourceManagement sources={sources} isLoading={sourcesLoading} />
+          </TabsContent>
+        )}
+
+        {/* Prompts Tab */}
+        {user.role === 'admin' && (
+          <TabsContent value="prompts" className="space-y-6">
+            <PromptManagement prompts={prompts} isLoading={promptsLoading} />
+          </TabsContent>
+        )}
+
         {/* System Status Tab */}
         {user.role === 'admin' && (
           <TabsContent value="system" className="space-y-6">
             <SystemStatus 
               queueStatus={queueStatus}
               apiUsage={apiUsage}
-              isLoading={queueLoading || apiLoading}
+              sourceHealth={sourceHealth}
+              isLoading={queueLoading || apiLoading || sourceHealthLoading}
             />
           </TabsContent>
         )}
@@ -2,17 +2,18 @@ import { useQuery } from "@tanstack/react-query";
 import { useParams } from "wouter";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertCircle, ArrowLeft, ExternalLink, CheckCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Link } from "wouter";
+import type { ArticleWithReport } from "@shared/schema";
 
 export default function Article() {
   const { slug } = useParams();
 
-  const { data: article, isLoading, error } = useQuery({
+  const { data: article, isLoading, error } = useQuery<ArticleWithReport>({
     queryKey: ['/api/articles', slug],
     enabled: !!slug,
   });
@@ -84,9 +85,17 @@ export default function Article() {
             {article.category?.toUpperCase()}
           </Badge>
           <span>•</span>
-          <time dateTime={article.publishedAt} data-testid="publish-date">
+          <time dateTime={article.publishedAt ? new Date(article.publishedAt).toISOString() : undefined} data-testid="publish-date">
             {article.publishedAt ? format(new Date(article.publishedAt), "PPP") : "Recently"}
           </time>
+          {article.revisedAt && (
+            <>
+              <span>•</span>
+              <Badge variant="outline" data-testid="updated-notice">
+                Updated {format(new Date(article.revisedAt), "PPp")}
+              </Badge>
+            </>
+          )}
           {article.report && (
             <>
               <span>•</span>
@@ -102,6 +111,26 @@ export default function Article() {
           {article.title}
         </h1>
 
+        {article.report?.basis === 'feed-description' && (
+          <Alert className="mb-6" data-testid="article-teaser-notice">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {article.metadata?.accessWall?.type === 'consent'
+                ? "The full article could not be retrieved, so this summary is based only on the publisher's teaser."
+                : "The full article is behind a paywall, so this summary is based only on the publisher's teaser."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {article.report?.needsRehumanization && (
+          <Alert className="mb-6" data-testid="article-revised-notice">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              The publisher has updated the original article since this summary was written. It will be revised shortly.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* TL;DR */}
         {article.report?.tldr && (
           <div className="bg-muted/50 border border-border rounded-lg p-4 mb-6">
@@ -116,17 +145,17 @@ export default function Article() {
         <div className="flex items-center justify-between flex-wrap gap-4">
           <div className="flex items-center space-x-3">
             <Avatar>
-              <AvatarImage src={`https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=40&h=40&fit=crop&crop=face`} />
               <AvatarFallback>
                 {article.authors?.[0]?.split(' ').map(n => n[0]).join('') || 'A'}
               </AvatarFallback>
             </Avatar>
             <div>
               <p className="font-medium text-foreground" data-testid="article-author">
-                {article.authors?.[0] || 'NewsAI Team'}
+                {article.authors && article.authors.length > 0 ? article.authors.join(', ') : article.metadata?.publisher || 'NewsAI Team'}
               </p>
               <p className="text-sm text-muted-foreground" data-testid="article-source">
-                {article.source?.name || 'Unknown Source'}
+                {article.source?.name || article.metadata?.publisher || 'Unknown Source'}
+                {article.metadata?.section && ` · ${article.metadata.section}`}
               </p>
             </div>
           </div>
@@ -143,8 +172,8 @@ export default function Article() {
       {/* Article Image */}
       <div className="mb-8">
         <img 
-          src={`https://images.unsplash.com/photo-1635070041078-e363dbe005cb?ixlib=rb-4.0.3&auto=format&fit=crop&w=1200&h=600`}
-          alt="Article illustration"
+          src={article.metadata?.imageUrl || `https://images.unsplash.com/photo-1635070041078-e363dbe005cb?ixlib=rb-4.0.3&auto=format&fit=crop&w=1200&h=600`}
+          alt={article.metadata?.imageUrl ? article.title : "Article illustration"}
           className="w-full h-64 lg:h-96 object-cover rounded-lg"
           data-testid="article-image"
         />
@@ -227,11 +256,38 @@ export default function Article() {
         </div>
       )}
 
+      {/* Also Covered By */}
+      {article.alsoCoveredBy && article.alsoCoveredBy.length > 0 && (
+        <div className="mt-8 pt-8 border-t border-border">
+          <h3 className="text-lg font-semibold text-foreground mb-4">Also covered by</h3>
+          <ul className="space-y-2" data-testid="also-covered-by">
+            {article.alsoCoveredBy.map((coverage) => (
+              <li key={coverage.articleId}>
+                <a
+                  href={coverage.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center space-x-2 text-muted-foreground hover:text-foreground"
+                  data-testid={`coverage-${coverage.articleId}`}
+                >
+                  <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  <span className="font-medium">{coverage.sourceName || new URL(coverage.url).hostname}</span>
+                  <span className="line-clamp-1">{coverage.title}</span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Article Meta */}
       <div className="mt-8 pt-8 border-t border-border text-sm text-muted-foreground">
         <div className="flex items-center justify-between">
           <div>
             <p>Published: {article.publishedAt ? format(new Date(article.publishedAt), "PPP") : "Recently"}</p>
+            {article.revisedAt && (
+              <p>Updated by the publisher: {format(new Date(article.revisedAt), "PPp")}</p>
+            )}
             {article.report?.aiScore && (
               <p>AI Confidence Score: {article.report.aiScore}%</p>
             )}
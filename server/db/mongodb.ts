@@ -13,7 +13,20 @@ import {
   type ArticleWithReport,
   type DashboardStats,
   type QueueStatus,
-  type ApiUsage
+  type ApiUsageCounter,
+  type SourceWithStats,
+  type StoryCluster,
+  type InsertStoryCluster,
+  type PageSnapshot,
+  type InsertPageSnapshot,
+  type ArticleRevision,
+  type InsertArticleRevision,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type LlmUsageRecord,
+  type InsertLlmUsageRecord,
+  type LlmUsageTotals,
+  type LlmUsageGroup
 } from "@shared/schema";
 
 // MongoDB document interfaces
@@ -40,6 +53,30 @@ interface JobDoc extends Omit<Job, 'id'> {
   _id: ObjectId;
 }
 
+interface ApiUsageCounterDoc extends Omit<ApiUsageCounter, 'id'> {
+  _id: ObjectId;
+}
+
+interface StoryClusterDoc extends Omit<StoryCluster, 'id'> {
+  _id: ObjectId;
+}
+
+interface PageSnapshotDoc extends Omit<PageSnapshot, 'id'> {
+  _id: ObjectId;
+}
+
+interface ArticleRevisionDoc extends Omit<ArticleRevision, 'id'> {
+  _id: ObjectId;
+}
+
+interface PromptTemplateDoc extends Omit<PromptTemplate, 'id'> {
+  _id: ObjectId;
+}
+
+interface LlmUsageRecordDoc extends Omit<LlmUsageRecord, 'id'> {
+  _id: ObjectId;
+}
+
 class MongoDatabase {
   private client: MongoClient;
   private db: Db;
@@ -48,6 +85,12 @@ class MongoDatabase {
   private reports: Collection<ReportDoc>;
   private sources: Collection<SourceDoc>;
   private jobs: Collection<JobDoc>;
+  private apiUsage: Collection<ApiUsageCounterDoc>;
+  private storyClusters: Collection<StoryClusterDoc>;
+  private pageSnapshots: Collection<PageSnapshotDoc>;
+  private articleRevisions: Collection<ArticleRevisionDoc>;
+  private promptTemplates: Collection<PromptTemplateDoc>;
+  private llmUsage: Collection<LlmUsageRecordDoc>;
 
   constructor() {
     const uri = process.env.MONGODB_URI;
@@ -62,6 +105,12 @@ class MongoDatabase {
     this.reports = this.db.collection<ReportDoc>('reports');
     this.sources = this.db.collection<SourceDoc>('sources');
     this.jobs = this.db.collection<JobDoc>('jobs');
+    this.apiUsage = this.db.collection<ApiUsageCounterDoc>('apiUsage');
+    this.storyClusters = this.db.collection<StoryClusterDoc>('storyClusters');
+    this.pageSnapshots = this.db.collection<PageSnapshotDoc>('pageSnapshots');
+    this.articleRevisions = this.db.collection<ArticleRevisionDoc>('articleRevisions');
+    this.promptTemplates = this.db.collection<PromptTemplateDoc>('promptTemplates');
+    this.llmUsage = this.db.collection<LlmUsageRecordDoc>('llmUsage');
   }
 
   async connect(): Promise<void> {
@@ -95,6 +144,8 @@ class MongoDatabase {
       await this.articles.createIndex({ status: 1 });
       await this.articles.createIndex({ sourceId: 1 });
       await this.articles.createIndex({ fetchedAt: -1 });
+      await this.articles.createIndex({ redirects: 1 });
+      await this.articles.createIndex({ clusterId: 1 });
 
       // Report indexes
       await this.reports.createIndex({ articleId: 1 }, { unique: true });
@@ -108,6 +159,25 @@ class MongoDatabase {
       await this.jobs.createIndex({ type: 1 });
       await this.jobs.createIndex({ createdAt: 1 });
 
+      // API usage indexes
+      await this.apiUsage.createIndex({ provider: 1, day: 1 }, { unique: true });
+
+      // Page snapshot indexes
+      await this.pageSnapshots.createIndex({ articleId: 1, fetchedAt: -1 });
+      await this.pageSnapshots.createIndex({ fetchedAt: 1 });
+
+      // Article revision indexes
+      await this.articleRevisions.createIndex({ articleId: 1, revision: 1 }, { unique: true });
+
+      // Prompt template indexes
+      await this.promptTemplates.createIndex({ name: 1, version: 1 }, { unique: true });
+      await this.promptTemplates.createIndex({ name: 1, isActive: 1 });
+
+      // LLM usage indexes
+      await this.llmUsage.createIndex({ day: 1 });
+      await this.llmUsage.createIndex({ createdAt: 1 });
+      await this.llmUsage.createIndex({ articleId: 1 });
+
       console.log('MongoDB indexes created successfully');
     } catch (error) {
       console.error('Error creating indexes:', error);
@@ -122,6 +192,7 @@ class MongoDatabase {
       {
         name: "TechCrunch",
         domain: "techcrunch.com",
+        type: "rss",
         rssUrl: "https://techcrunch.com/feed/",
         category: "technology",
         rateLimitPerHour: 100,
@@ -132,6 +203,7 @@ class MongoDatabase {
       {
         name: "Reuters Technology", 
         domain: "reuters.com",
+        type: "rss",
         rssUrl: "https://feeds.reuters.com/reuters/technologyNews",
         category: "technology",
         rateLimitPerHour: 200,
@@ -141,7 +213,8 @@ class MongoDatabase {
       },
       {
         name: "BBC Science",
-        domain: "bbc.com", 
+        domain: "bbc.com",
+        type: "rss", 
         rssUrl: "http://feeds.bbci.co.uk/news/science_and_environment/rss.xml",
         category: "science",
         rateLimitPerHour: 150,
@@ -185,6 +258,11 @@ class MongoDatabase {
       status: doc.status,
       redirects: doc.redirects,
       metadata: doc.metadata,
+      clusterId: doc.clusterId ?? null,
+      minhash: doc.minhash ?? null,
+      contentHash: doc.contentHash ?? null,
+      recrawlCount: doc.recrawlCount ?? 0,
+      revisedAt: doc.revisedAt ?? null,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt
     };
@@ -202,6 +280,13 @@ class MongoDatabase {
       checks: doc.checks,
       aiScore: doc.aiScore,
       similarityScore: doc.similarityScore,
+      basis: doc.basis || 'full-text',
+      needsRehumanization: doc.needsRehumanization ?? false,
+      promptId: doc.promptId ?? null,
+      promptVersion: doc.promptVersion ?? null,
+      model: doc.model ?? null,
+      inputTokens: doc.inputTokens ?? null,
+      outputTokens: doc.outputTokens ?? null,
       reviewedBy: doc.reviewedBy?.toString() || null,
       reviewedAt: doc.reviewedAt,
       reviewNotes: doc.reviewNotes,
@@ -215,12 +300,101 @@ class MongoDatabase {
       id: doc._id.toString(),
       name: doc.name,
       domain: doc.domain,
+      type: doc.type || 'rss',
       rssUrl: doc.rssUrl,
       apiEndpoint: doc.apiEndpoint,
+      sitemapUrl: doc.sitemapUrl ?? null,
+      connectorConfig: doc.connectorConfig || {},
       category: doc.category,
       isActive: doc.isActive,
       rateLimitPerHour: doc.rateLimitPerHour,
       lastFetchedAt: doc.lastFetchedAt,
+      etag: doc.etag ?? null,
+      lastModified: doc.lastModified ?? null,
+      feedTtlMinutes: doc.feedTtlMinutes ?? null,
+      skipHours: doc.skipHours || [],
+      fetchStats: doc.fetchStats ?? null,
+      webSub: doc.webSub ?? null,
+      health: doc.health ?? null,
+      extractionRules: doc.extractionRules ?? null,
+      createdAt: doc.createdAt
+    };
+  }
+
+  private docToStoryCluster(doc: StoryClusterDoc): StoryCluster {
+    return {
+      id: doc._id.toString(),
+      title: doc.title,
+      primaryArticleId: doc.primaryArticleId,
+      articleIds: doc.articleIds || [],
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  private docToPageSnapshot(doc: PageSnapshotDoc): PageSnapshot {
+    return {
+      id: doc._id.toString(),
+      articleId: doc.articleId,
+      url: doc.url,
+      pageIndex: doc.pageIndex ?? 0,
+      statusCode: doc.statusCode ?? null,
+      headers: doc.headers || {},
+      contentHash: doc.contentHash,
+      htmlGzip: doc.htmlGzip,
+      byteLength: doc.byteLength,
+      compressedLength: doc.compressedLength,
+      fetchedAt: doc.fetchedAt
+    };
+  }
+
+  private docToArticleRevision(doc: ArticleRevisionDoc): ArticleRevision {
+    return {
+      id: doc._id.toString(),
+      articleId: doc.articleId,
+      revision: doc.revision,
+      contentHash: doc.contentHash,
+      rawText: doc.rawText,
+      trigger: doc.trigger,
+      meaningful: doc.meaningful ?? true,
+      changeSummary: doc.changeSummary ?? null,
+      createdAt: doc.createdAt
+    };
+  }
+
+  private docToPromptTemplate(doc: PromptTemplateDoc): PromptTemplate {
+    return {
+      id: doc._id.toString(),
+      name: doc.name,
+      version: doc.version,
+      systemPrompt: doc.systemPrompt,
+      userPrompt: doc.userPrompt,
+      variables: doc.variables || [],
+      model: doc.model ?? null,
+      responseSchema: doc.responseSchema,
+      isActive: doc.isActive ?? false,
+      notes: doc.notes ?? null,
+      createdBy: doc.createdBy ?? null,
+      createdAt: doc.createdAt
+    };
+  }
+
+  private docToLlmUsageRecord(doc: LlmUsageRecordDoc): LlmUsageRecord {
+    return {
+      id: doc._id.toString(),
+      day: doc.day,
+      task: doc.task,
+      provider: doc.provider,
+      model: doc.model,
+      promptId: doc.promptId ?? null,
+      articleId: doc.articleId ?? null,
+      sourceId: doc.sourceId ?? null,
+      inputTokens: doc.inputTokens ?? 0,
+      outputTokens: doc.outputTokens ?? 0,
+      latencyMs: doc.latencyMs ?? 0,
+      costUsd: doc.costUsd ?? 0,
+      success: doc.success ?? true,
+      error: doc.error ?? null,
       createdAt: doc.createdAt
     };
   }
@@ -292,11 +466,44 @@ class MongoDatabase {
     return docs.map(doc => this.docToSource(doc));
   }
 
-  async getActiveRssSources(): Promise<Source[]> {
-    const docs = await this.sources.find({ isActive: true, rssUrl: { $exists: true, $ne: null } }).toArray();
+  async getActiveSources(): Promise<Source[]> {
+    const docs = await this.sources.find({
+      isActive: true,
+      $or: [
+        { rssUrl: { $exists: true, $ne: null } },
+        { apiEndpoint: { $exists: true, $ne: null } },
+        { sitemapUrl: { $exists: true, $ne: null } }
+      ]
+    }).toArray();
     return docs.map(doc => this.docToSource(doc));
   }
 
+  async getSourcesWithStats(): Promise<SourceWithStats[]> {
+    const [sources, articleCounts, errorCounts] = await Promise.all([
+      this.sources.find({}).toArray(),
+      this.articles.aggregate<{ _id: ObjectId; count: number }>([
+        { $match: { sourceId: { $exists: true, $ne: null } } },
+        { $group: { _id: '$sourceId', count: { $sum: 1 } } }
+      ]).toArray(),
+      this.jobs.aggregate<{ _id: string; count: number }>([
+        { $match: { type: 'fetch', status: 'failed' } },
+        { $group: { _id: '$data.sourceId', count: { $sum: 1 } } }
+      ]).toArray()
+    ]);
+
+    const articlesBySource = new Map(articleCounts.map(row => [row._id.toString(), row.count]));
+    const errorsBySource = new Map(errorCounts.map(row => [String(row._id), row.count]));
+
+    return sources.map(doc => {
+      const source = this.docToSource(doc);
+      return {
+        ...source,
+        articleCount: articlesBySource.get(source.id) || 0,
+        errorCount: errorsBySource.get(source.id) || 0
+      };
+    });
+  }
+
   async createSource(source: InsertSource): Promise<Source> {
     const result = await this.sources.insertOne({
       ...source,
@@ -309,6 +516,20 @@ class MongoDatabase {
     return this.docToSource(doc!);
   }
 
+  async updateSource(id: string, updates: Partial<Source>): Promise<Source | undefined> {
+    try {
+      const { id: _id, ...updateData } = updates;
+      const result = await this.sources.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: updateData },
+        { returnDocument: 'after' }
+      );
+      return result ? this.docToSource(result) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
   async updateSourceLastFetch(sourceId: string): Promise<void> {
     try {
       await this.sources.updateOne(
@@ -320,6 +541,15 @@ class MongoDatabase {
     }
   }
 
+  async deleteSource(id: string): Promise<boolean> {
+    try {
+      const result = await this.sources.deleteOne({ _id: new ObjectId(id) });
+      return result.deletedCount > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
   // Article methods
   async getArticles(limit = 50, offset = 0, status?: string): Promise<ArticleWithReport[]> {
     const filter: any = {};
@@ -343,8 +573,18 @@ class MongoDatabase {
     return articles;
   }
 
+  async getArticle(id: string): Promise<Article | undefined> {
+    try {
+      const doc = await this.articles.findOne({ _id: new ObjectId(id) });
+      return doc ? this.docToArticle(doc) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
   async getArticleByUrl(url: string): Promise<Article | undefined> {
-    const doc = await this.articles.findOne({ url });
+    // Also match URLs that were redirected or canonicalized to a stored article
+    const doc = await this.articles.findOne({ $or: [{ url }, { redirects: url }] });
     return doc ? this.docToArticle(doc) : undefined;
   }
 
@@ -363,6 +603,15 @@ class MongoDatabase {
     return docs.map(doc => this.docToArticle(doc));
   }
 
+  async getArticlesSince(since: Date, limit = 500): Promise<Article[]> {
+    const docs = await this.articles
+      .find({ fetchedAt: { $gte: since } })
+      .sort({ fetchedAt: -1 })
+      .limit(limit)
+      .toArray();
+    return docs.map(doc => this.docToArticle(doc));
+  }
+
   async createArticle(article: InsertArticle): Promise<Article> {
     const result = await this.articles.insertOne({
       ...article,
@@ -410,6 +659,147 @@ class MongoDatabase {
     return result.modifiedCount;
   }
 
+  // Story cluster methods
+  async getStoryCluster(id: string): Promise<StoryCluster | undefined> {
+    try {
+      const doc = await this.storyClusters.findOne({ _id: new ObjectId(id) });
+      return doc ? this.docToStoryCluster(doc) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async createStoryCluster(cluster: InsertStoryCluster): Promise<StoryCluster> {
+    const result = await this.storyClusters.insertOne({
+      ...cluster,
+      _id: new ObjectId(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    } as StoryClusterDoc);
+
+    const doc = await this.storyClusters.findOne({ _id: result.insertedId });
+    return this.docToStoryCluster(doc!);
+  }
+
+  async updateStoryCluster(id: string, updates: Partial<StoryCluster>): Promise<StoryCluster | undefined> {
+    try {
+      const { id: _id, ...rest } = updates;
+      const result = await this.storyClusters.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: { ...rest, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+      return result ? this.docToStoryCluster(result) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // Page snapshot methods
+  async createPageSnapshot(snapshot: InsertPageSnapshot): Promise<PageSnapshot> {
+    const result = await this.pageSnapshots.insertOne({
+      ...snapshot,
+      _id: new ObjectId(),
+      fetchedAt: snapshot.fetchedAt || new Date()
+    } as PageSnapshotDoc);
+
+    const doc = await this.pageSnapshots.findOne({ _id: result.insertedId });
+    return this.docToPageSnapshot(doc!);
+  }
+
+  async getPageSnapshot(id: string): Promise<PageSnapshot | undefined> {
+    try {
+      const doc = await this.pageSnapshots.findOne({ _id: new ObjectId(id) });
+      return doc ? this.docToPageSnapshot(doc) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async getPageSnapshotsByArticle(articleId: string): Promise<PageSnapshot[]> {
+    const docs = await this.pageSnapshots
+      .find({ articleId })
+      .sort({ fetchedAt: -1, pageIndex: 1 })
+      .toArray();
+    return docs.map(doc => this.docToPageSnapshot(doc));
+  }
+
+  async deletePageSnapshotsOlderThan(olderThanDays: number): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+
+    const result = await this.pageSnapshots.deleteMany({ fetchedAt: { $lt: cutoffDate } });
+    return result.deletedCount;
+  }
+
+  // Article revision methods
+  async createArticleRevision(revision: InsertArticleRevision): Promise<ArticleRevision> {
+    const result = await this.articleRevisions.insertOne({
+      ...revision,
+      _id: new ObjectId(),
+      createdAt: new Date()
+    } as ArticleRevisionDoc);
+
+    const doc = await this.articleRevisions.findOne({ _id: result.insertedId });
+    return this.docToArticleRevision(doc!);
+  }
+
+  async getArticleRevisions(articleId: string): Promise<ArticleRevision[]> {
+    const docs = await this.articleRevisions
+      .find({ articleId })
+      .sort({ revision: 1 })
+      .toArray();
+    return docs.map(doc => this.docToArticleRevision(doc));
+  }
+
+  // Prompt template methods
+  async getPromptTemplates(name?: string): Promise<PromptTemplate[]> {
+    const docs = await this.promptTemplates
+      .find(name ? { name } : {})
+      .sort({ name: 1, version: -1 })
+      .toArray();
+    return docs.map(doc => this.docToPromptTemplate(doc));
+  }
+
+  async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    try {
+      const doc = await this.promptTemplates.findOne({ _id: new ObjectId(id) });
+      return doc ? this.docToPromptTemplate(doc) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async getActivePromptTemplate(name: string): Promise<PromptTemplate | undefined> {
+    const doc = await this.promptTemplates.findOne({ name, isActive: true });
+    return doc ? this.docToPromptTemplate(doc) : undefined;
+  }
+
+  async createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    const result = await this.promptTemplates.insertOne({
+      ...template,
+      _id: new ObjectId(),
+      variables: template.variables || [],
+      isActive: template.isActive ?? false,
+      createdAt: new Date()
+    } as PromptTemplateDoc);
+
+    const doc = await this.promptTemplates.findOne({ _id: result.insertedId });
+    return this.docToPromptTemplate(doc!);
+  }
+
+  async activatePromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    const template = await this.getPromptTemplate(id);
+    if (!template) return undefined;
+
+    await this.promptTemplates.updateMany(
+      { name: template.name, _id: { $ne: new ObjectId(id) } },
+      { $set: { isActive: false } }
+    );
+    await this.promptTemplates.updateOne({ _id: new ObjectId(id) }, { $set: { isActive: true } });
+    return { ...template, isActive: true };
+  }
+
   // Report methods
   async getReportByArticleId(articleId: string): Promise<Report | undefined> {
     try {
@@ -454,7 +844,7 @@ class MongoDatabase {
 
   async getReportsForReview(limit = 20): Promise<(Report & { article: Article; source?: Source })[]> {
     const docs = await this.reports
-      .find({ reviewedAt: { $exists: false } })
+      .find({ $or: [{ reviewedAt: { $exists: false } }, { needsRehumanization: true }] })
       .limit(limit)
       .toArray();
 
@@ -542,18 +932,68 @@ class MongoDatabase {
     };
   }
 
-  async getApiUsage(): Promise<ApiUsage> {
-    // In a real implementation, this would track actual API usage
-    return {
-      geminiCalls: 1247,
-      geminiLimit: 5000,
-      newsApiRequests: 856,
-      newsApiLimit: 1000,
-      mongoOperations: 23456
-    };
+  async getApiUsageCount(provider: string, day: string): Promise<number> {
+    const counter = await this.apiUsage.findOne({ provider, day });
+    return counter?.requests || 0;
+  }
+
+  async incrementApiUsage(provider: string, requests = 1): Promise<void> {
+    try {
+      const day = new Date().toISOString().slice(0, 10);
+      await this.apiUsage.updateOne(
+        { provider, day },
+        { $inc: { requests } },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error('Error recording API usage:', error);
+    }
+  }
+
+  // LLM usage methods
+  async createLlmUsageRecord(record: InsertLlmUsageRecord): Promise<LlmUsageRecord> {
+    const result = await this.llmUsage.insertOne({
+      ...record,
+      _id: new ObjectId(),
+      createdAt: new Date()
+    } as LlmUsageRecordDoc);
+
+    const doc = await this.llmUsage.findOne({ _id: result.insertedId });
+    return this.docToLlmUsageRecord(doc!);
+  }
+
+  async getLlmUsageTotals(sinceDay: string, groupBy: LlmUsageGroup): Promise<LlmUsageTotals[]> {
+    const groups = await this.llmUsage.aggregate<LlmUsageTotals & { _id: string | null }>([
+      { $match: { day: { $gte: sinceDay } } },
+      {
+        $group: {
+          _id: `$${groupBy}`,
+          calls: { $sum: 1 },
+          failedCalls: { $sum: { $cond: [{ $eq: ['$success', false] }, 1, 0] } },
+          inputTokens: { $sum: '$inputTokens' },
+          outputTokens: { $sum: '$outputTokens' },
+          costUsd: { $sum: '$costUsd' },
+          avgLatencyMs: { $avg: '$latencyMs' }
+        }
+      }
+    ]).toArray();
+
+    return groups.map(({ _id, ...totals }) => ({
+      ...totals,
+      key: _id ?? null,
+      avgLatencyMs: Math.round(totals.avgLatencyMs || 0)
+    }));
+  }
+
+  async deleteLlmUsageRecordsOlderThan(olderThanDays: number): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+
+    const result = await this.llmUsage.deleteMany({ createdAt: { $lt: cutoffDate } });
+    return result.deletedCount;
   }
 
-  private async getSourceById(id: string): Promise<Source | undefined> {
+  async getSourceById(id: string): Promise<Source | undefined> {
     try {
       const doc = await this.sources.findOne({ _id: new ObjectId(id) });
       return doc ? this.docToSource(doc) : undefined;
@@ -3,9 +3,21 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { mongoDb } from "./db/mongodb";
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody: unknown
+  }
+}
+
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+
+// Keep the exact bytes around for signature checks (e.g. WebSub pushes); a push can
+// arrive with any content type, so every parser that may consume the body records them
+const keepRawBody = (req: Request, _res: Response, buf: Buffer) => {
+  req.rawBody = buf;
+};
+app.use(express.json({ verify: keepRawBody }));
+app.use(express.urlencoded({ extended: false, verify: keepRawBody }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -1,8 +1,18 @@
 import { storage } from "../storage";
 import { NewsService } from "../services/newsService";
+import { WebSubService } from "../services/webSubService";
+import { SourceHealthService } from "../services/sourceHealthService";
+import { SnapshotService } from "../services/snapshotService";
+import { RevisionService } from "../services/revisionService";
+import { LlmUsageService } from "../services/llmUsageService";
 
 export class ScheduledJobs {
   private newsService = new NewsService();
+  private webSubService = new WebSubService();
+  private sourceHealthService = new SourceHealthService();
+  private snapshotService = new SnapshotService();
+  private revisionService = new RevisionService();
+  private llmUsageService = new LlmUsageService();
   private intervals: NodeJS.Timeout[] = [];
 
   start(): void {
@@ -13,6 +23,16 @@ export class ScheduledJobs {
       setInterval(() => this.scheduleNewsFetch(), 30 * 60 * 1000)
     );
 
+    // Renew WebSub leases hourly
+    this.intervals.push(
+      setInterval(() => this.renewWebSubSubscriptions(), 60 * 60 * 1000)
+    );
+
+    // Re-check recently published articles for publisher updates
+    this.intervals.push(
+      setInterval(() => this.scheduleRecrawls(), 15 * 60 * 1000)
+    );
+
     // Clean up old raw text daily
     this.intervals.push(
       setInterval(() => this.cleanupOldData(), 24 * 60 * 60 * 1000)
@@ -32,7 +52,7 @@ export class ScheduledJobs {
     try {
       console.log('Scheduling news fetch jobs...');
       
-      const sources = await storage.getActiveRssSources();
+      const sources = await storage.getActiveSources();
       
       for (const source of sources) {
         // Check if we should respect rate limits
@@ -47,13 +67,33 @@ export class ScheduledJobs {
             console.log(`Skipping ${source.name} - rate limit not reached`);
             continue;
           }
+
+          // Honour the feed's own <ttl> hint
+          if (source.feedTtlMinutes && timeSinceLastFetch < source.feedTtlMinutes * 60 * 1000) {
+            console.log(`Skipping ${source.name} - feed ttl not expired`);
+            continue;
+          }
+        }
+
+        // Failing sources wait out an exponential back-off before the next attempt
+        if (this.sourceHealthService.isBackingOff(source, now)) {
+          console.log(`Skipping ${source.name} - backing off until ${source.health?.backoffUntil}`);
+          continue;
+        }
+
+        // <skipHours> are expressed in GMT
+        if (source.skipHours?.includes(now.getUTCHours())) {
+          console.log(`Skipping ${source.name} - hour ${now.getUTCHours()} is in skipHours`);
+          continue;
         }
 
-        // Create fetch job
+        // Create fetch job. Failed fetches are retried through the source's
+        // back-off, so the job itself only runs once
         await storage.createJob({
           type: 'fetch',
           status: 'pending',
           data: { sourceId: source.id },
+          maxAttempts: 1,
           scheduledFor: now
         });
       }
@@ -64,6 +104,25 @@ export class ScheduledJobs {
     }
   }
 
+  private async scheduleRecrawls(): Promise<void> {
+    try {
+      const scheduled = await this.revisionService.scheduleDueRecrawls();
+      if (scheduled > 0) {
+        console.log(`Scheduled ${scheduled} recrawl jobs`);
+      }
+    } catch (error) {
+      console.error('Error scheduling recrawls:', error);
+    }
+  }
+
+  private async renewWebSubSubscriptions(): Promise<void> {
+    try {
+      await this.webSubService.renewExpiringSubscriptions();
+    } catch (error) {
+      console.error('Error renewing WebSub subscriptions:', error);
+    }
+  }
+
   private async cleanupOldData(): Promise<void> {
     try {
       console.log('Cleaning up old data...');
@@ -72,6 +131,13 @@ export class ScheduledJobs {
       const deletedCount = await storage.deleteOldRawText(7);
       console.log(`Deleted raw text from ${deletedCount} articles`);
 
+      // Snapshots have their own, longer retention so old extractions can still be debugged
+      const prunedSnapshots = await this.snapshotService.pruneOld();
+      console.log(`Deleted ${prunedSnapshots} page snapshots older than ${this.snapshotService.getRetentionDays()} days`);
+
+      const prunedUsage = await this.llmUsageService.pruneOld();
+      console.log(`Deleted ${prunedUsage} LLM usage records older than ${this.llmUsageService.getRetentionDays()} days`);
+
       // Clean up completed jobs older than 30 days
       await this.cleanupOldJobs();
       
@@ -110,6 +176,7 @@ export class ScheduledJobs {
         type: 'fetch',
         status: 'pending',
         data: { sourceId },
+        maxAttempts: 1,
         scheduledFor: new Date()
       });
       
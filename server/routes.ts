@@ -1,14 +1,41 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { AuthService } from "./services/authService";
 import { ScheduledJobs } from "./jobs/scheduledJobs";
 import { ArticleWorker } from "./workers/articleWorker";
-import { insertArticleSchema, insertSourceSchema, insertReportSchema } from "@shared/schema";
+import { NewsService } from "./services/newsService";
+import { WebSubService } from "./services/webSubService";
+import { OpmlService } from "./services/opmlService";
+import { SourceHealthService } from "./services/sourceHealthService";
+import { FeedDiscoveryService } from "./services/feedDiscoveryService";
+import { StoryClusterService } from "./services/storyClusterService";
+import { ExtractorService } from "./services/extractorService";
+import { SnapshotService } from "./services/snapshotService";
+import { PromptRegistry, PromptValidationError } from "./services/promptRegistry";
+import { LlmUsageService } from "./services/llmUsageService";
+import {
+  insertArticleSchema,
+  insertSourceSchema,
+  insertReportSchema,
+  sourceExtractionRulesSchema,
+  type ExtractionPreview
+} from "@shared/schema";
+import { ZodError } from "zod";
 
 const authService = new AuthService();
 const scheduledJobs = new ScheduledJobs();
 const articleWorker = new ArticleWorker();
+const newsService = new NewsService();
+const webSubService = new WebSubService();
+const opmlService = new OpmlService();
+const sourceHealthService = new SourceHealthService();
+const feedDiscoveryService = new FeedDiscoveryService();
+const storyClusterService = new StoryClusterService();
+const extractorService = new ExtractorService();
+const snapshotService = new SnapshotService();
+const promptRegistry = new PromptRegistry();
+const llmUsageService = new LlmUsageService();
 
 // Start background services
 scheduledJobs.start();
@@ -84,13 +111,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Article not found' });
       }
 
-      res.json(article);
+      const alsoCoveredBy = await storyClusterService.getCoverage(article);
+      res.json({ ...article, alsoCoveredBy });
     } catch (error) {
       console.error('Error fetching article:', error);
       res.status(500).json({ message: 'Failed to fetch article' });
     }
   });
 
+  // WebSub callbacks (called by hubs, not users)
+
+  // Intent verification for subscribe/unsubscribe requests
+  app.get("/api/websub/:sourceId", async (req, res) => {
+    try {
+      const challenge = await webSubService.verifyIntent(req.params.sourceId, {
+        mode: req.query['hub.mode'] as string,
+        topic: req.query['hub.topic'] as string,
+        challenge: req.query['hub.challenge'] as string,
+        leaseSeconds: req.query['hub.lease_seconds'] as string,
+        reason: req.query['hub.reason'] as string
+      });
+
+      if (challenge === null) {
+        return res.status(404).send('Unknown subscription');
+      }
+
+      res.status(200).type('text/plain').send(challenge);
+    } catch (error) {
+      console.error('Error verifying WebSub intent:', error);
+      res.status(500).send('Verification failed');
+    }
+  });
+
+  // Content distribution from the hub
+  app.post("/api/websub/:sourceId", express.raw({ type: () => true, limit: '5mb' }), async (req, res) => {
+    try {
+      const { sourceId } = req.params;
+      const body = Buffer.isBuffer(req.body) ? req.body : req.rawBody as Buffer || Buffer.alloc(0);
+      const items = await webSubService.handleNotification(sourceId, {
+        body,
+        signature: req.headers['x-hub-signature'] as string | undefined
+      });
+
+      if (items && items.length > 0) {
+        const savedCount = await newsService.saveArticles(items, sourceId);
+        await newsService.createExtractionJobs(sourceId);
+        console.log(`WebSub push for source ${sourceId} saved ${savedCount} new articles`);
+      }
+
+      // Hubs only need a 2xx; rejected pushes are acknowledged but ignored
+      res.status(202).json({ message: 'Notification received' });
+    } catch (error) {
+      console.error('Error handling WebSub notification:', error);
+      res.status(500).json({ message: 'Failed to process notification' });
+    }
+  });
+
   // Authentication routes
 
   // Mock Google OAuth (in production, use proper OAuth)
@@ -164,10 +240,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get API usage
+  // Get LLM and news API usage, with the last 30 days of LLM spend
   app.get("/api/admin/api-usage", requireAuth, requireAdmin, async (req, res) => {
     try {
-      const apiUsage = await storage.getApiUsage();
+      const apiUsage = await llmUsageService.getApiUsage();
       res.json(apiUsage);
     } catch (error) {
       console.error('Error fetching API usage:', error);
@@ -175,12 +251,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get per-source fetch health
+  app.get("/api/admin/source-health", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const summary = await sourceHealthService.getSummary();
+      res.json(summary);
+    } catch (error) {
+      console.error('Error fetching source health:', error);
+      res.status(500).json({ message: 'Failed to fetch source health' });
+    }
+  });
+
   // Get reports for review
   app.get("/api/admin/reports/review", requireAuth, requireAdmin, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 20;
       const reports = await storage.getReportsForReview(limit);
-      res.json(reports);
+      res.json(await storyClusterService.collapseReviewQueue(reports));
     } catch (error) {
       console.error('Error fetching reports for review:', error);
       res.status(500).json({ message: 'Failed to fetch reports for review' });
@@ -251,6 +338,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stored HTML snapshots of an article, newest run first
+  app.get("/api/admin/articles/:articleId/snapshots", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const snapshots = await snapshotService.listForArticle(req.params.articleId);
+      res.json(snapshots);
+    } catch (error) {
+      console.error('Error fetching snapshots:', error);
+      res.status(500).json({ message: 'Failed to fetch snapshots' });
+    }
+  });
+
+  // Raw snapshot HTML, served as text so publisher markup never runs on our origin
+  app.get("/api/admin/snapshots/:id/html", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const snapshot = await storage.getPageSnapshot(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ message: 'Snapshot not found' });
+      }
+      res.type('text/plain').send(snapshotService.toPage(snapshot).html);
+    } catch (error) {
+      console.error('Error fetching snapshot HTML:', error);
+      res.status(500).json({ message: 'Failed to fetch snapshot' });
+    }
+  });
+
+  // Re-run extraction on a stored snapshot without refetching the publisher
+  app.post("/api/admin/articles/:articleId/reextract", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const article = await storage.getArticle(req.params.articleId);
+      if (!article) {
+        return res.status(404).json({ message: 'Article not found' });
+      }
+
+      const { snapshotId } = req.body || {};
+      let outcome;
+      try {
+        outcome = await extractorService.reextractFromSnapshot(article, typeof snapshotId === 'string' ? snapshotId : undefined);
+      } catch (error) {
+        return res.status(422).json({ message: error instanceof Error ? error.message : 'Re-extraction failed' });
+      }
+
+      res.json({
+        status: outcome.status,
+        textLength: outcome.status === 'extracted' ? outcome.text.length : 0,
+        article: await storage.getArticle(article.id)
+      });
+    } catch (error) {
+      console.error('Error re-extracting article:', error);
+      res.status(500).json({ message: 'Failed to re-extract article' });
+    }
+  });
+
+  // Every stored version of the article text, oldest first
+  app.get("/api/admin/articles/:articleId/revisions", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const revisions = await storage.getArticleRevisions(req.params.articleId);
+      res.json(revisions);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      res.status(500).json({ message: 'Failed to fetch revisions' });
+    }
+  });
+
+  // Rewrite the report from the article's current text after the publisher revised it
+  app.post("/api/admin/articles/:articleId/rehumanize", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { articleId } = req.params;
+      const article = await storage.getArticle(articleId);
+      const report = article ? await storage.getReportByArticleId(articleId) : undefined;
+      if (!article || !report) {
+        return res.status(404).json({ message: 'Article or report not found' });
+      }
+      if (!article.rawText || report.basis !== 'full-text') {
+        return res.status(422).json({ message: 'Article has no full text to re-humanize' });
+      }
+
+      await storage.createJob({
+        type: 'humanize',
+        status: 'pending',
+        data: { articleId, rehumanize: true }
+      });
+      res.json({ message: 'Re-humanization job created successfully' });
+    } catch (error) {
+      console.error('Error creating re-humanization job:', error);
+      res.status(500).json({ message: 'Failed to create re-humanization job' });
+    }
+  });
+
   // Manual fetch trigger
   app.post("/api/admin/fetch/:sourceId", requireAuth, requireAdmin, async (req, res) => {
     try {
@@ -266,7 +441,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get sources
   app.get("/api/admin/sources", requireAuth, requireAdmin, async (req, res) => {
     try {
-      const sources = await storage.getSources();
+      const sources = await storage.getSourcesWithStats();
       res.json(sources);
     } catch (error) {
       console.error('Error fetching sources:', error);
@@ -286,6 +461,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Import sources from an OPML document (raw XML body or { opml } JSON)
+  app.post(
+    "/api/admin/sources/import",
+    requireAuth,
+    requireAdmin,
+    express.text({ type: ['text/xml', 'application/xml', 'text/x-opml', 'application/octet-stream'], limit: '2mb' }),
+    async (req, res) => {
+      try {
+        const opml = typeof req.body === 'string' ? req.body : req.body?.opml;
+        if (!opml || typeof opml !== 'string') {
+          return res.status(400).json({ message: 'OPML document required' });
+        }
+
+        const result = await opmlService.importSources(opml);
+        res.json({
+          created: result.created.length,
+          skipped: result.skipped.length,
+          invalid: result.invalid.length,
+          details: result
+        });
+      } catch (error) {
+        console.error('Error importing OPML:', error);
+        res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to import OPML' });
+      }
+    }
+  );
+
+  // Discover feeds and sitemaps from a publisher homepage
+  app.post("/api/admin/sources/discover", requireAuth, requireAdmin, async (req, res) => {
+    const { url } = req.body || {};
+    if (!url || typeof url !== 'string') {
+      return res.status(400).json({ message: 'A site URL is required' });
+    }
+
+    try {
+      const result = await feedDiscoveryService.discover(url);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof TypeError && /Invalid URL/i.test(error.message)) {
+        return res.status(400).json({ message: 'Invalid site URL' });
+      }
+      console.error('Error discovering feeds:', error);
+      res.status(500).json({ message: 'Failed to discover feeds' });
+    }
+  });
+
+  // Export sources as OPML
+  app.get("/api/admin/sources/export.opml", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const sources = await storage.getSources();
+      res
+        .type('text/x-opml')
+        .attachment('newsai-sources.opml')
+        .send(opmlService.exportSources(sources));
+    } catch (error) {
+      console.error('Error exporting OPML:', error);
+      res.status(500).json({ message: 'Failed to export sources' });
+    }
+  });
+
+  // Get single source with stats
+  app.get("/api/admin/sources/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const sources = await storage.getSourcesWithStats();
+      const source = sources.find(s => s.id === req.params.id);
+
+      if (!source) {
+        return res.status(404).json({ message: 'Source not found' });
+      }
+
+      res.json(source);
+    } catch (error) {
+      console.error('Error fetching source:', error);
+      res.status(500).json({ message: 'Failed to fetch source' });
+    }
+  });
+
+  // Update source (activate/deactivate, category, rate limit, ...)
+  app.patch("/api/admin/sources/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const updates = insertSourceSchema.partial().parse(req.body);
+
+      // Domains are unique; report a clash instead of letting the index reject it
+      if (updates.domain) {
+        const domain = updates.domain.toLowerCase();
+        const sources = await storage.getSources();
+        if (sources.some(other => other.id !== req.params.id && other.domain.toLowerCase() === domain)) {
+          return res.status(409).json({ message: `Source for ${updates.domain} already exists` });
+        }
+      }
+
+      // Connectors keep their own state in connectorConfig (e.g. deferred sitemaps); an edit adds to it
+      if (updates.connectorConfig) {
+        const existing = await storage.getSource(req.params.id);
+        updates.connectorConfig = { ...existing?.connectorConfig, ...updates.connectorConfig };
+      }
+
+      let source = await storage.updateSource(req.params.id, updates);
+
+      if (!source) {
+        return res.status(404).json({ message: 'Source not found' });
+      }
+
+      // Re-enabling a source gives it a clean slate instead of the old back-off
+      if (updates.isActive === true) {
+        source = await sourceHealthService.resetFailures(source);
+      } else if (updates.isActive === false) {
+        // A switched-off source should stop receiving pushes, as when it is deleted
+        const deactivated = source;
+        await webSubService.unsubscribe(deactivated).catch(error => {
+          console.error(`Error unsubscribing ${deactivated.name} from WebSub hub:`, error);
+        });
+      }
+
+      res.json(source);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid source data', errors: error.errors });
+      }
+      console.error('Error updating source:', error);
+      res.status(500).json({ message: 'Failed to update source' });
+    }
+  });
+
+  // Delete source (articles already fetched from it are kept)
+  app.delete("/api/admin/sources/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const source = await storage.getSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: 'Source not found' });
+      }
+
+      await webSubService.unsubscribe(source).catch(error => {
+        console.error(`Error unsubscribing ${source.name} from WebSub hub:`, error);
+      });
+
+      await storage.deleteSource(source.id);
+      res.json({ message: 'Source deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting source:', error);
+      res.status(500).json({ message: 'Failed to delete source' });
+    }
+  });
+
+  // Preview extraction for a source against a live URL, pasted HTML or a stored snapshot.
+  // Unsaved rules in the body take precedence over the source's stored rules.
+  app.post("/api/admin/sources/:id/extraction-preview", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const source = await storage.getSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: 'Source not found' });
+      }
+
+      const { url, html, snapshotId } = req.body || {};
+      if ((!url || typeof url !== 'string') && (!html || typeof html !== 'string') && (!snapshotId || typeof snapshotId !== 'string')) {
+        return res.status(400).json({ message: 'A page URL, HTML or snapshot is required' });
+      }
+
+      const rules = req.body.rules !== undefined
+        ? sourceExtractionRulesSchema.parse(req.body.rules)
+        : source.extractionRules;
+
+      let page = { html: html as string, url: typeof url === 'string' ? url : `https://${source.domain}/` };
+      if (snapshotId) {
+        const snapshot = await storage.getPageSnapshot(snapshotId);
+        if (!snapshot) {
+          return res.status(404).json({ message: 'Snapshot not found' });
+        }
+        page = snapshotService.toPage(snapshot);
+      } else if (!html) {
+        try {
+          page = await extractorService.fetchPage(new URL(url).toString());
+        } catch (error) {
+          if (error instanceof TypeError && /Invalid URL/i.test(error.message)) {
+            return res.status(400).json({ message: 'Invalid page URL' });
+          }
+          return res.status(502).json({ message: `Failed to fetch page: ${error instanceof Error ? error.message : error}` });
+        }
+      }
+
+      const result = extractorService.extractFromHtml(page.html, page.url, rules);
+      const preview: ExtractionPreview = {
+        url: html && !snapshotId ? undefined : page.url,
+        title: result.title,
+        text: result.text,
+        blockCount: result.blockCount,
+        method: result.method,
+        authors: result.metadata?.authors || [],
+        publishedAt: result.metadata?.publishedAt?.toISOString(),
+        imageUrl: result.metadata?.imageUrl,
+        nextPageUrl: result.nextPageUrl,
+        warnings: result.warnings
+      };
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid extraction rules', errors: error.errors });
+      }
+      console.error('Error previewing extraction:', error);
+      res.status(500).json({ message: 'Failed to preview extraction' });
+    }
+  });
+
+  // Prompt templates with every stored version, newest first
+  app.get("/api/admin/prompts", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      res.json(await promptRegistry.listPrompts());
+    } catch (error) {
+      console.error('Error fetching prompts:', error);
+      res.status(500).json({ message: 'Failed to fetch prompts' });
+    }
+  });
+
+  // Save an edited prompt as a new version; earlier versions are kept for provenance
+  app.post("/api/admin/prompts/:name/versions", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const { name } = req.params;
+      if (!promptRegistry.isPromptName(name)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const { systemPrompt, userPrompt, model, responseSchema, notes, activate } = req.body || {};
+      if (typeof systemPrompt !== 'string' || typeof userPrompt !== 'string') {
+        return res.status(400).json({ message: 'System and user prompts are required' });
+      }
+      if (responseSchema !== undefined && (typeof responseSchema !== 'object' || responseSchema === null || Array.isArray(responseSchema))) {
+        return res.status(400).json({ message: 'Response schema must be a JSON object' });
+      }
+
+      const template = await promptRegistry.createVersion(name, {
+        systemPrompt,
+        userPrompt,
+        model: typeof model === 'string' ? model : null,
+        responseSchema,
+        notes: typeof notes === 'string' ? notes : null,
+        activate: activate !== false
+      }, req.user.id);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof PromptValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error saving prompt version:', error);
+      res.status(500).json({ message: 'Failed to save prompt version' });
+    }
+  });
+
+  // Make an earlier (or inactive) version the one the pipeline uses
+  app.post("/api/admin/prompts/:name/versions/:id/activate", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const template = await storage.getPromptTemplate(req.params.id);
+      if (!template || template.name !== req.params.name) {
+        return res.status(404).json({ message: 'Prompt version not found' });
+      }
+
+      res.json(await storage.activatePromptTemplate(template.id));
+    } catch (error) {
+      console.error('Error activating prompt version:', error);
+      res.status(500).json({ message: 'Failed to activate prompt version' });
+    }
+  });
+
   // Health check
   app.get("/api/health", (req, res) => {
     res.json({ 
@@ -0,0 +1,59 @@
+import { readFileSync, readdirSync, writeFileSync, existsSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ReadabilityExtractor } from "../services/readabilityExtractor";
+
+// Runs the readability extractor over saved pages in server/fixtures/extraction
+// and compares the output with each page's .expected.txt. Pass --update to
+// rewrite the expected files after an intentional change to the extractor.
+
+const FIXTURE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../fixtures/extraction");
+
+function firstDifference(expected: string, actual: string): string {
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  for (let i = 0; i < Math.max(expectedLines.length, actualLines.length); i++) {
+    if (expectedLines[i] !== actualLines[i]) {
+      return `line ${i + 1}\n    expected: ${expectedLines[i] ?? '<end of text>'}\n    actual:   ${actualLines[i] ?? '<end of text>'}`;
+    }
+  }
+  return 'trailing whitespace differs';
+}
+
+function main() {
+  const update = process.argv.includes('--update');
+  const extractor = new ReadabilityExtractor();
+  const pages = readdirSync(FIXTURE_DIR).filter(file => file.endsWith('.html')).sort();
+
+  let failures = 0;
+  for (const page of pages) {
+    const html = readFileSync(path.join(FIXTURE_DIR, page), 'utf8');
+    const expectedPath = path.join(FIXTURE_DIR, page.replace(/\.html$/, '.expected.txt'));
+    const actual = extractor.extract(html).text + '\n';
+
+    if (update) {
+      writeFileSync(expectedPath, actual);
+      console.log(`updated  ${page}`);
+      continue;
+    }
+
+    if (!existsSync(expectedPath)) {
+      failures++;
+      console.log(`missing  ${page} (run with --update to create ${path.basename(expectedPath)})`);
+      continue;
+    }
+
+    const expected = readFileSync(expectedPath, 'utf8');
+    if (expected === actual) {
+      console.log(`ok       ${page}`);
+    } else {
+      failures++;
+      console.log(`FAIL     ${page}: ${firstDifference(expected, actual)}`);
+    }
+  }
+
+  console.log(`\n${pages.length - failures}/${pages.length} extraction fixtures passed`);
+  if (failures > 0) process.exit(1);
+}
+
+main();
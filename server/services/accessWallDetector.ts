@@ -0,0 +1,111 @@
+import * as cheerio from "cheerio";
+import { type CheerioAPI } from "cheerio";
+
+// Extracted text longer than this is treated as the full article even when
+// paywall markup is present (metered sites often serve crawlers everything)
+const FULL_TEXT_LENGTH = 1500;
+
+const PAYWALL_SELECTORS = [
+  '.paywall', '#paywall', '[class*="paywall"]', '[id*="paywall"]', '[data-paywall]',
+  '.regwall', '[class*="regwall"]', '.piano-offer', '#piano-inline', '.tp-modal', '.tp-container-inner',
+  '.meteredContent', '.subscriber-only', '.premium-content', '.article-locked', '.pw-container',
+  '[class*="subscription-wall"]', '[class*="article-gate"]'
+];
+
+const PAYWALL_SCRIPTS = /tinypass\.com|piano\.io|cxense\.com|poool\.fr|zephr|laterpay|pelcro\.com/i;
+
+const PAYWALL_PHRASES = [
+  /subscribe (now )?to (continue|keep) reading/i,
+  /to continue reading,? (please )?(subscribe|log ?in|sign ?in|register)/i,
+  /(already|are you) a subscriber\??/i,
+  /this (article|story|content) is (only )?(available )?(for|to) (paid )?(subscribers|members)/i,
+  /you('ve| have) reached your (free )?(article|monthly|story) limit/i,
+  /create a free account to (continue|read)/i,
+  /(sign|log) in to (continue|read) (this|the full)/i,
+  /unlock (this|the full) (article|story)/i
+];
+
+const CONSENT_SELECTORS = [
+  '#onetrust-consent-sdk', '#onetrust-banner-sdk', '.qc-cmp2-container', '#qc-cmp2-ui',
+  '#CybotCookiebotDialog', '.fc-consent-root', '#usercentrics-root', '[id^="sp_message_container"]',
+  '#didomi-host', '.truste_box_overlay', '#consent-page', '.cmp-container', '#cmpbox'
+];
+
+const CONSENT_HOSTS = /^(consent\.google\.[a-z.]+|consent\.yahoo\.com|guce\.[a-z.]+|consent\.[a-z0-9-]+\.[a-z.]+)$/i;
+
+const CONSENT_PHRASES = [
+  /we (and our (\d+ )?partners )?(use|store|process) (cookies|personal data|your data)/i,
+  /(manage|customi[sz]e) (your )?(cookie|privacy|consent) (settings|preferences|choices)/i,
+  /accept (all )?cookies/i,
+  /before you continue/i,
+  /your privacy choices/i,
+  /reject all/i
+];
+
+export interface AccessWall {
+  type: 'paywall' | 'consent';
+  reason: string;
+}
+
+export class AccessWallDetector {
+  /**
+   * Decides whether a page served a paywall or consent wall instead of the
+   * article. Returns null when the extracted text looks like the real story.
+   */
+  detect(html: string, extractedText: string, pageUrl: string): AccessWall | null {
+    const $ = cheerio.load(html);
+    const isShort = extractedText.length < FULL_TEXT_LENGTH;
+
+    try {
+      const host = new URL(pageUrl).hostname;
+      if (CONSENT_HOSTS.test(host)) {
+        return { type: 'consent', reason: `Redirected to consent page (${host})` };
+      }
+    } catch (error) {
+      // Fall through to content checks
+    }
+
+    const consentPhrases = CONSENT_PHRASES.filter(pattern => pattern.test(extractedText)).length;
+    if (consentPhrases >= 2 && isShort) {
+      return { type: 'consent', reason: 'Extracted text is a cookie consent notice' };
+    }
+
+    const declaredPaywall = this.isDeclaredPaywalled($);
+    const paywallPhrase = PAYWALL_PHRASES.find(pattern => pattern.test(extractedText));
+    const paywallMarkup = PAYWALL_SELECTORS.find(selector => $(selector).length > 0);
+
+    if (declaredPaywall && (isShort || paywallPhrase)) {
+      return { type: 'paywall', reason: 'Page declares isAccessibleForFree: false' };
+    }
+    if (paywallPhrase && isShort) {
+      return { type: 'paywall', reason: 'Extracted text contains a subscription prompt' };
+    }
+    if (paywallMarkup && isShort && this.looksTruncated(extractedText)) {
+      return { type: 'paywall', reason: `Paywall markup found (${paywallMarkup})` };
+    }
+    if (isShort && this.looksTruncated(extractedText) && $('script[src]').toArray().some(el => PAYWALL_SCRIPTS.test($(el).attr('src') || ''))) {
+      return { type: 'paywall', reason: 'Paywall script loaded and text is truncated' };
+    }
+
+    const consentMarkup = CONSENT_SELECTORS.find(selector => $(selector).length > 0);
+    if (consentMarkup && extractedText.length < 200) {
+      return { type: 'consent', reason: `Consent banner (${consentMarkup}) hides the article` };
+    }
+
+    return null;
+  }
+
+  private isDeclaredPaywalled($: CheerioAPI): boolean {
+    let declared = false;
+    $('script[type="application/ld+json"]').each((_, el) => {
+      // Cheaper than walking the JSON and tolerant of broken documents
+      if (/"isAccessibleForFree"\s*:\s*"?false"?/i.test($(el).text())) declared = true;
+    });
+    return declared || /^false$/i.test($('meta[itemprop="isAccessibleForFree"]').attr('content') || '');
+  }
+
+  private looksTruncated(text: string): boolean {
+    const trimmed = text.trim();
+    return trimmed.length < 200 || /(\.\.\.|…)$/.test(trimmed) || !/[.!?"'”’)]$/.test(trimmed);
+  }
+}
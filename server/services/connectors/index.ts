@@ -0,0 +1,27 @@
+import { type Source } from "@shared/schema";
+import { RssConnector } from "./rssConnector";
+import { NewsApiConnector } from "./newsApiConnector";
+import { SitemapConnector } from "./sitemapConnector";
+import { type SourceConnector } from "./types";
+
+export type { ConnectorFetchResult, SourceConnector } from "./types";
+
+const connectors: SourceConnector[] = [
+  new RssConnector(),
+  new NewsApiConnector(),
+  new SitemapConnector()
+];
+
+export function getSourceConnector(source: Source): SourceConnector {
+  const connector = connectors.find(candidate => candidate.type === (source.type || 'rss'));
+
+  if (!connector) {
+    throw new Error(`No connector registered for source type: ${source.type}`);
+  }
+
+  if (!connector.canFetch(source)) {
+    throw new Error(`Source ${source.name} is missing configuration for the ${connector.type} connector`);
+  }
+
+  return connector;
+}
@@ -0,0 +1,198 @@
+import { storage } from "../../storage";
+import { type Source } from "@shared/schema";
+import { type RssItem } from "../feedParser";
+import { FETCH_TIMEOUT_MS, type ConnectorFetchResult, type SourceConnector } from "./types";
+
+/**
+ * Per-source settings stored in `Source.connectorConfig`. Field paths use dot
+ * notation, e.g. `source.name`. Defaults follow the NewsAPI.org response shape.
+ */
+export interface NewsApiConfig {
+  articlesPath?: string;
+  totalResultsPath?: string;
+  fieldMap?: {
+    id?: string;
+    title?: string;
+    url?: string;
+    publishedAt?: string;
+    description?: string;
+    content?: string;
+    authors?: string;
+    categories?: string;
+    imageUrl?: string;
+  };
+  // The key itself is never stored on the source, only the env var holding it
+  apiKeyEnv?: string;
+  apiKeyParam?: string;
+  authHeader?: string;
+  authScheme?: string;
+  query?: Record<string, string>;
+  pageParam?: string;
+  pageSizeParam?: string;
+  pageSize?: number;
+  maxPages?: number;
+}
+
+const DEFAULT_FIELD_MAP: Required<NonNullable<NewsApiConfig['fieldMap']>> = {
+  id: 'url',
+  title: 'title',
+  url: 'url',
+  publishedAt: 'publishedAt',
+  description: 'description',
+  content: 'content',
+  authors: 'author',
+  categories: 'category',
+  imageUrl: 'urlToImage'
+};
+
+export class NewsApiConnector implements SourceConnector {
+  readonly type = 'api';
+
+  canFetch(source: Source): boolean {
+    return !!source.apiEndpoint;
+  }
+
+  async fetch(source: Source): Promise<ConnectorFetchResult> {
+    if (!source.apiEndpoint) {
+      throw new Error(`No API endpoint for source ${source.name}`);
+    }
+
+    const config: NewsApiConfig = source.connectorConfig || {};
+    const fieldMap = { ...DEFAULT_FIELD_MAP, ...config.fieldMap };
+    const maxPages = Math.max(1, config.maxPages || 1);
+    const apiKey = process.env[config.apiKeyEnv || 'NEWS_API_KEY'];
+    const headers = this.buildHeaders(config, apiKey);
+
+    const items: RssItem[] = [];
+    let bytes = 0;
+    let status = 200;
+
+    for (let page = 1; page <= maxPages; page++) {
+      let payload: any;
+      try {
+        const response = await fetch(this.buildPageUrl(source.apiEndpoint, config, page, apiKey), {
+          headers,
+          signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+        });
+        await storage.incrementApiUsage('newsapi');
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const body = await response.text();
+        bytes += Buffer.byteLength(body);
+        payload = JSON.parse(body);
+        status = response.status;
+      } catch (error) {
+        // Only a failed first page fails the fetch; later pages keep what was already collected
+        if (page === 1) throw error;
+        console.warn(`Stopped paging ${source.name} at page ${page}:`, error instanceof Error ? error.message : error);
+        break;
+      }
+
+      const entries = this.readPath(payload, config.articlesPath || 'articles');
+      if (!Array.isArray(entries) || entries.length === 0) {
+        break;
+      }
+
+      for (const entry of entries) {
+        const item = this.mapEntry(entry, fieldMap, source.apiEndpoint);
+        if (item) items.push(item);
+      }
+
+      const totalResults = Number(this.readPath(payload, config.totalResultsPath || 'totalResults'));
+      if (!isNaN(totalResults) && items.length >= totalResults) {
+        break;
+      }
+    }
+
+    // maxPages already bounds API sources; every item of every page requested is kept
+    return { items, status, bytes, articleBudget: items.length };
+  }
+
+  private buildHeaders(config: NewsApiConfig, apiKey?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'User-Agent': 'NewsAI Bot 1.0 (contact@newsai.com)',
+      'Accept': 'application/json'
+    };
+
+    if (apiKey && !config.apiKeyParam) {
+      const headerName = config.authHeader || 'X-Api-Key';
+      headers[headerName] = config.authScheme ? `${config.authScheme} ${apiKey}` : apiKey;
+    }
+
+    return headers;
+  }
+
+  private buildPageUrl(endpoint: string, config: NewsApiConfig, page: number, apiKey?: string): string {
+    const url = new URL(endpoint);
+
+    if (apiKey && config.apiKeyParam) {
+      url.searchParams.set(config.apiKeyParam, apiKey);
+    }
+
+    Object.entries(config.query || {}).forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
+
+    url.searchParams.set(config.pageParam || 'page', String(page));
+    if (config.pageSize) {
+      url.searchParams.set(config.pageSizeParam || 'pageSize', String(config.pageSize));
+    }
+
+    return url.toString();
+  }
+
+  private mapEntry(
+    entry: any,
+    fieldMap: Required<NonNullable<NewsApiConfig['fieldMap']>>,
+    endpoint: string
+  ): RssItem | undefined {
+    const title = this.readString(entry, fieldMap.title);
+    const rawUrl = this.readString(entry, fieldMap.url);
+    if (!title || !rawUrl) return undefined;
+
+    let url: string;
+    try {
+      url = new URL(rawUrl, endpoint).toString();
+    } catch (error) {
+      return undefined;
+    }
+
+    const published = new Date(this.readString(entry, fieldMap.publishedAt) || '');
+    const imageUrl = this.readString(entry, fieldMap.imageUrl);
+
+    return {
+      title,
+      url,
+      publishedAt: isNaN(published.getTime()) ? new Date() : published,
+      guid: this.readString(entry, fieldMap.id) || url,
+      description: this.readString(entry, fieldMap.description),
+      content: this.readString(entry, fieldMap.content),
+      authors: this.readList(entry, fieldMap.authors),
+      categories: this.readList(entry, fieldMap.categories),
+      enclosures: imageUrl ? [{ url: imageUrl }] : []
+    };
+  }
+
+  private readPath(value: any, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], value);
+  }
+
+  private readString(value: any, path: string): string | undefined {
+    const result = this.readPath(value, path);
+    if (typeof result === 'string') return result.trim() || undefined;
+    if (typeof result === 'number') return String(result);
+    return undefined;
+  }
+
+  private readList(value: any, path: string): string[] {
+    const result = this.readPath(value, path);
+    const values = Array.isArray(result) ? result : typeof result === 'string' ? result.split(',') : [];
+    return values
+      .map(item => (typeof item === 'string' ? item : item?.name || ''))
+      .map((item: string) => item.trim())
+      .filter(Boolean);
+  }
+}
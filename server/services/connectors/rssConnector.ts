@@ -0,0 +1,105 @@
+import { storage } from "../../storage";
+import { type Source } from "@shared/schema";
+import { FeedParser } from "../feedParser";
+import { PageDecoder } from "../pageDecoder";
+import { CrawlPolicy } from "../crawlPolicy";
+import { FETCH_TIMEOUT_MS, type ConnectorFetchResult, type SourceConnector } from "./types";
+
+export class RssConnector implements SourceConnector {
+  readonly type = 'rss';
+  private feedParser = new FeedParser();
+  private pageDecoder = new PageDecoder();
+  private crawlPolicy = new CrawlPolicy();
+
+  canFetch(source: Source): boolean {
+    return !!source.rssUrl;
+  }
+
+  async fetch(source: Source): Promise<ConnectorFetchResult> {
+    if (!source.rssUrl) {
+      throw new Error(`No RSS URL for source ${source.name}`);
+    }
+
+    const headers: Record<string, string> = {
+      'User-Agent': 'NewsAI Bot 1.0 (contact@newsai.com)',
+      'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/json;q=0.9, application/xml;q=0.9, text/xml;q=0.8'
+    };
+
+    // Conditional GET: let the publisher answer 304 when nothing changed
+    if (source.etag) {
+      headers['If-None-Match'] = source.etag;
+    }
+    if (source.lastModified) {
+      headers['If-Modified-Since'] = source.lastModified;
+    }
+
+    await this.crawlPolicy.beforeRequest(source.rssUrl);
+    const response = await fetch(source.rssUrl, { headers, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+
+    // A 304 carries no new validators or channel hints, so keep what we have
+    if (response.status === 304) {
+      console.log(`${source.name} not modified since last fetch`);
+      return { items: [], status: 304, bytes: 0 };
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const body = new Uint8Array(await response.arrayBuffer());
+    const bytes = body.length;
+    const feedText = this.pageDecoder.decode(body, response.headers.get('content-type')).text;
+
+    try {
+      const feed = this.feedParser.parse(feedText, source.rssUrl);
+      const linkHeader = this.parseLinkHeader(response.headers.get('link'), source.rssUrl);
+      const hubs = Array.from(new Set([...linkHeader.hubs, ...(feed.hubs || [])]));
+
+      return {
+        items: feed.items,
+        status: response.status,
+        bytes,
+        sourceUpdates: {
+          etag: response.headers.get('etag'),
+          lastModified: response.headers.get('last-modified'),
+          feedTtlMinutes: feed.ttlMinutes ?? null,
+          skipHours: feed.skipHours || []
+        },
+        webSub: hubs.length > 0 ? {
+          hubs,
+          topicUrl: linkHeader.self || feed.selfUrl || source.rssUrl
+        } : undefined
+      };
+    } catch (error) {
+      console.error(`Error parsing feed for ${source.name}:`, error);
+
+      // Drop the validators so the next cycle refetches the full body
+      await storage.updateSource(source.id, { etag: null, lastModified: null });
+
+      // An unreadable body is a failed fetch even when served with 200, so it backs off like one
+      throw new Error(`Feed could not be parsed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // WebSub publishers may advertise hubs in the HTTP Link header instead of the body
+  private parseLinkHeader(header: string | null, base: string): { hubs: string[]; self?: string } {
+    const result: { hubs: string[]; self?: string } = { hubs: [] };
+    if (!header) return result;
+
+    header.split(',').forEach(part => {
+      const match = part.match(/<([^>]+)>\s*;(.*)/);
+      const rel = match?.[2].match(/rel\s*=\s*"?([^";]+)"?/i)?.[1].toLowerCase().split(/\s+/) || [];
+      if (!match) return;
+
+      try {
+        const url = new URL(match[1].trim(), base).toString();
+        if (rel.includes('hub')) result.hubs.push(url);
+        if (rel.includes('self') && !result.self) result.self = url;
+      } catch (error) {
+        // Ignore malformed link targets
+      }
+    });
+
+    return result;
+  }
+}
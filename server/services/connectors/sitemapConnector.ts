@@ -0,0 +1,147 @@
+import { gunzipSync } from "zlib";
+import { type Source } from "@shared/schema";
+import { type RssItem } from "../feedParser";
+import { SitemapParser, type ParsedSitemap, type SitemapUrl } from "../sitemapParser";
+import { PageDecoder } from "../pageDecoder";
+import { CrawlPolicy } from "../crawlPolicy";
+import { FETCH_TIMEOUT_MS, type ConnectorFetchResult, type SourceConnector } from "./types";
+
+/**
+ * Per-source settings stored in `Source.connectorConfig` for sitemap sources.
+ */
+export interface SitemapConfig {
+  windowHours?: number;
+  // Child sitemaps the last run had no budget left for, visited first next time (connector-owned)
+  deferredSitemaps?: string[];
+}
+
+// ScheduledJobs polls every 30 minutes, so each run gets half of the hourly budget
+const RUNS_PER_HOUR = 2;
+const MAX_DEFERRED_SITEMAPS = 200;
+
+export class SitemapConnector implements SourceConnector {
+  readonly type = 'sitemap';
+  private sitemapParser = new SitemapParser();
+  private pageDecoder = new PageDecoder();
+  private crawlPolicy = new CrawlPolicy();
+
+  canFetch(source: Source): boolean {
+    return !!source.sitemapUrl;
+  }
+
+  async fetch(source: Source): Promise<ConnectorFetchResult> {
+    if (!source.sitemapUrl) {
+      throw new Error(`No sitemap URL for source ${source.name}`);
+    }
+
+    const config: SitemapConfig = source.connectorConfig || {};
+    const cutoff = new Date(Date.now() - (config.windowHours || 48) * 60 * 60 * 1000);
+    // rateLimitPerHour bounds both the new article URLs saved and the sitemap documents read per run
+    const budget = Math.max(1, Math.floor((source.rateLimitPerHour || 60) / RUNS_PER_HOUR));
+
+    // The root is always re-read for new children; sitemaps deferred last run come next
+    const queue: string[] = [source.sitemapUrl].concat(config.deferredSitemaps || []);
+    const visited = new Set<string>();
+    const failed: string[] = [];
+    const entries = new Map<string, SitemapUrl>();
+    let bytes = 0;
+    let status = 200;
+
+    while (queue.length > 0 && visited.size < budget) {
+      const sitemapUrl = queue.shift()!;
+      if (visited.has(sitemapUrl)) continue;
+      visited.add(sitemapUrl);
+
+      let sitemap: ParsedSitemap;
+      try {
+        const page = await this.fetchSitemap(sitemapUrl);
+        bytes += page.bytes;
+        status = page.status;
+        sitemap = this.sitemapParser.parse(page.xml, sitemapUrl);
+      } catch (error) {
+        // Only the root failing fails the run; a broken child is retried next time
+        if (sitemapUrl === source.sitemapUrl) throw error;
+        console.warn(`Error reading sitemap ${sitemapUrl} for ${source.name}:`, error instanceof Error ? error.message : error);
+        failed.push(sitemapUrl);
+        continue;
+      }
+
+      // Newest child sitemaps first; children whose lastmod predates the window cannot hold new URLs
+      sitemap.sitemaps
+        .filter(child => !child.lastmod || child.lastmod >= cutoff)
+        .sort((a, b) => (b.lastmod?.getTime() || 0) - (a.lastmod?.getTime() || 0))
+        .forEach(child => queue.push(child.loc));
+
+      sitemap.urls
+        .filter(entry => {
+          const date = this.entryDate(entry);
+          return !date || date >= cutoff;
+        })
+        .forEach(entry => entries.set(entry.loc, entry));
+    }
+
+    const unvisited = queue.filter(url => !visited.has(url));
+    const deferredSitemaps = Array.from(new Set(unvisited.concat(failed))).slice(0, MAX_DEFERRED_SITEMAPS);
+    if (unvisited.length > 0) {
+      console.log(`Sitemap page budget of ${budget} reached for ${source.name}, ${deferredSitemaps.length} sitemaps deferred`);
+    }
+
+    const items = Array.from(entries.values())
+      .sort((a, b) => (this.entryDate(b)?.getTime() || 0) - (this.entryDate(a)?.getTime() || 0))
+      .map(entry => this.toItem(entry));
+
+    return {
+      items,
+      status,
+      bytes,
+      // URLs past the budget stay in the window and are saved by a later run
+      articleBudget: budget,
+      sourceUpdates: { connectorConfig: { ...config, deferredSitemaps } }
+    };
+  }
+
+  private async fetchSitemap(url: string): Promise<{ xml: string; status: number; bytes: number }> {
+    await this.crawlPolicy.beforeRequest(url);
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'NewsAI Bot 1.0 (contact@newsai.com)',
+        'Accept': 'application/xml, text/xml, application/x-gzip;q=0.8'
+      },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText} (${url})`);
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    // .xml.gz files are served as gzip payloads rather than with Content-Encoding
+    const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+    const xml = this.pageDecoder.decode(isGzip ? gunzipSync(buffer) : buffer, isGzip ? null : response.headers.get('content-type')).text;
+
+    return { xml, status: response.status, bytes: buffer.length };
+  }
+
+  private entryDate(entry: SitemapUrl): Date | undefined {
+    return entry.news?.publicationDate || entry.lastmod;
+  }
+
+  private toItem(entry: SitemapUrl): RssItem {
+    return {
+      title: entry.news?.title || this.titleFromUrl(entry.loc),
+      url: entry.loc,
+      publishedAt: this.entryDate(entry) || new Date(),
+      updatedAt: entry.lastmod,
+      guid: entry.loc,
+      categories: entry.news?.keywords || [],
+      enclosures: []
+    };
+  }
+
+  // Plain sitemaps carry no titles; the slug is the best stand-in until extraction
+  private titleFromUrl(url: string): string {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    const slug = (segments.pop() || url).replace(/\.\w+$/, '').replace(/[-_]+/g, ' ').trim();
+    return slug.charAt(0).toUpperCase() + slug.slice(1);
+  }
+}
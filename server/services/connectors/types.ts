@@ -0,0 +1,29 @@
+import { type Source } from "@shared/schema";
+import { type RssItem } from "../feedParser";
+
+// Abort stalled publishers so they count as failures instead of hanging a worker
+export const FETCH_TIMEOUT_MS = 30 * 1000;
+
+// New articles saved per fetch when the connector sets no budget of its own
+export const DEFAULT_ARTICLE_BUDGET = 20;
+
+export interface ConnectorFetchResult {
+  items: RssItem[];
+  status: number;
+  bytes: number;
+  // New articles to save from this fetch, counted after URLs already stored are skipped
+  articleBudget?: number;
+  // Connector-owned state to persist on the source, e.g. cache validators
+  sourceUpdates?: Partial<Source>;
+  // Hubs the publisher advertises for push delivery of this topic
+  webSub?: {
+    hubs: string[];
+    topicUrl: string;
+  };
+}
+
+export interface SourceConnector {
+  readonly type: string;
+  canFetch(source: Source): boolean;
+  fetch(source: Source): Promise<ConnectorFetchResult>;
+}
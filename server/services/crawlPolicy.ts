@@ -0,0 +1,241 @@
+const USER_AGENT = 'Mozilla/5.0 (compatible; NewsAI Bot/1.0; +https://newsai.com/bot)';
+
+// Group names in robots.txt that address us, compared without case or punctuation
+const ROBOTS_AGENT_TOKENS = ['newsaibot', 'newsai'];
+
+const ROBOTS_TIMEOUT_MS = 10 * 1000;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// A host whose robots.txt is down is retried sooner than a healthy one is refreshed
+const ROBOTS_RETRY_MS = 15 * 60 * 1000;
+// RFC 9309 asks crawlers to parse at least 500 KiB; anything beyond is ignored
+const ROBOTS_MAX_BYTES = 500 * 1024;
+
+const DEFAULT_HOST_DELAY_MS = 1000;
+// Crawl-delay values above this are clamped so one host cannot stall the worker for long
+const MAX_CRAWL_DELAY_SECONDS = 30;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+interface RobotsEntry {
+  status: 'ok' | 'missing' | 'unreachable';
+  rules: RobotsRule[];
+  crawlDelay?: number;
+  error?: string;
+  expiresAt: number;
+}
+
+// Shared by every CrawlPolicy instance so extraction and feed fetching see the same hosts
+const robotsCache = new Map<string, Promise<RobotsEntry>>();
+const nextRequestAt = new Map<string, number>();
+
+export class RobotsDisallowedError extends Error {
+  constructor(readonly url: string, readonly robotsUrl: string) {
+    super(`Disallowed by ${robotsUrl}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+// A robots.txt that cannot be read is a temporary condition; the page is tried again at retryAt
+export class RobotsUnreachableError extends Error {
+  constructor(readonly url: string, readonly robotsUrl: string, readonly retryAt: Date, reason?: string) {
+    super(`${robotsUrl} is unreachable (${reason})`);
+    this.name = 'RobotsUnreachableError';
+  }
+}
+
+export class CrawlPolicy {
+  getHostDelayMs(): number {
+    const delay = parseInt(process.env.CRAWL_HOST_DELAY_MS || '', 10);
+    return delay >= 0 ? delay : DEFAULT_HOST_DELAY_MS;
+  }
+
+  /**
+   * Waits until the URL's host may be contacted again. With checkRobots the
+   * host's robots.txt is consulted first (fetched and cached as needed), and
+   * a RobotsDisallowedError is thrown for disallowed paths and a
+   * RobotsUnreachableError while robots.txt cannot be read.
+   */
+  async beforeRequest(url: string, options: { checkRobots?: boolean } = {}): Promise<void> {
+    const target = new URL(url);
+    let crawlDelay = await this.cachedCrawlDelay(target.origin);
+
+    if (options.checkRobots) {
+      const robots = await this.getRobots(target.origin);
+      if (robots.status === 'unreachable') {
+        // Unreachable is not the same as "allow": try again later rather than crawl blind
+        throw new RobotsUnreachableError(url, `${target.origin}/robots.txt`, new Date(robots.expiresAt), robots.error);
+      }
+      if (!this.isAllowed(robots.rules, target.pathname + target.search)) {
+        throw new RobotsDisallowedError(url, `${target.origin}/robots.txt`);
+      }
+      crawlDelay = robots.crawlDelay;
+    }
+
+    await this.waitForHost(target.host, crawlDelay);
+  }
+
+  private async waitForHost(host: string, crawlDelay?: number): Promise<void> {
+    const delayMs = Math.max(this.getHostDelayMs(), Math.min(crawlDelay || 0, MAX_CRAWL_DELAY_SECONDS) * 1000);
+    const now = Date.now();
+    const start = Math.max(now, nextRequestAt.get(host) || 0);
+    nextRequestAt.set(host, start + delayMs);
+
+    if (nextRequestAt.size > 1000) {
+      nextRequestAt.forEach((at, key) => {
+        if (at < now) nextRequestAt.delete(key);
+      });
+    }
+
+    if (start > now) {
+      await new Promise(resolve => setTimeout(resolve, start - now));
+    }
+  }
+
+  private async cachedCrawlDelay(origin: string): Promise<number | undefined> {
+    const cached = robotsCache.get(origin);
+    if (!cached) return undefined;
+    const entry = await cached;
+    return entry.expiresAt > Date.now() ? entry.crawlDelay : undefined;
+  }
+
+  private async getRobots(origin: string): Promise<RobotsEntry> {
+    const cached = robotsCache.get(origin);
+    if (cached) {
+      const entry = await cached;
+      if (entry.expiresAt > Date.now()) return entry;
+    }
+
+    // Cache the pending fetch so concurrent requests to a new host share it
+    const pending = this.fetchRobots(origin);
+    robotsCache.set(origin, pending);
+    return pending;
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsEntry> {
+    const robotsUrl = `${origin}/robots.txt`;
+    await this.waitForHost(new URL(origin).host);
+
+    let response: Response;
+    try {
+      response = await fetch(robotsUrl, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS)
+      });
+    } catch (error) {
+      return this.unreachable(error instanceof Error ? error.message : String(error));
+    }
+
+    // RFC 9309: a missing or forbidden robots.txt means everything is allowed, a server error means nothing is
+    if (response.status >= 500) {
+      await response.body?.cancel().catch(() => undefined);
+      return this.unreachable(`HTTP ${response.status}`);
+    }
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => undefined);
+      return { status: 'missing', rules: [], expiresAt: Date.now() + ROBOTS_TTL_MS };
+    }
+
+    let text: string;
+    try {
+      text = (await response.text()).slice(0, ROBOTS_MAX_BYTES);
+    } catch (error) {
+      return this.unreachable(error instanceof Error ? error.message : String(error));
+    }
+
+    const group = this.selectGroup(this.parseRobots(text));
+    return {
+      status: 'ok',
+      rules: group.rules,
+      crawlDelay: group.crawlDelay,
+      expiresAt: Date.now() + ROBOTS_TTL_MS
+    };
+  }
+
+  private unreachable(error: string): RobotsEntry {
+    return { status: 'unreachable', rules: [], error, expiresAt: Date.now() + ROBOTS_RETRY_MS };
+  }
+
+  private parseRobots(text: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of text.split(/\r\n|\r|\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator < 0) continue;
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        // Consecutive user-agent lines share one group
+        if (!current || !collectingAgents) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        collectingAgents = true;
+        continue;
+      }
+
+      if (!current) continue;
+      collectingAgents = false;
+
+      if ((key === 'allow' || key === 'disallow') && value) {
+        current.rules.push({ allow: key === 'allow', pattern: value });
+      } else if (key === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (delay >= 0) current.crawlDelay = delay;
+      }
+    }
+
+    return groups;
+  }
+
+  // Our own group(s) win over "*"; several matching groups are merged
+  private selectGroup(groups: RobotsGroup[]): Omit<RobotsGroup, 'agents'> {
+    const ours = groups.filter(group =>
+      group.agents.some(agent => ROBOTS_AGENT_TOKENS.includes(agent.replace(/[^a-z0-9]/g, '')))
+    );
+    const selected = ours.length > 0 ? ours : groups.filter(group => group.agents.includes('*'));
+
+    const delays = selected.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+    return {
+      rules: selected.reduce<RobotsRule[]>((rules, group) => rules.concat(group.rules), []),
+      crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined
+    };
+  }
+
+  // The longest matching pattern decides; on a tie, allow wins
+  private isAllowed(rules: RobotsRule[], path: string): boolean {
+    if (path === '/robots.txt') return true;
+
+    let best: RobotsRule | undefined;
+    for (const rule of rules) {
+      if (!this.matches(rule.pattern, path)) continue;
+      if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+    return !best || best.allow;
+  }
+
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+  }
+}
@@ -1,44 +1,99 @@
+import * as cheerio from "cheerio";
+import { type CheerioAPI } from "cheerio";
 import { storage } from "../storage";
-import { type Article } from "@shared/schema";
+import { type Article, type SourceExtractionRules } from "@shared/schema";
+import { FETCH_TIMEOUT_MS } from "./connectors/types";
+import { UrlCanonicalizer } from "./urlCanonicalizer";
+import { AccessWallDetector, type AccessWall } from "./accessWallDetector";
+import { ReadabilityExtractor, type ExtractedContent } from "./readabilityExtractor";
+import { MetadataExtractor, type PageMetadata } from "./metadataExtractor";
+import { SnapshotService, type FetchedPage } from "./snapshotService";
+import { PageDecoder } from "./pageDecoder";
+import { RevisionService, type RevisionTrigger } from "./revisionService";
+import { CrawlPolicy, RobotsDisallowedError, RobotsUnreachableError } from "./crawlPolicy";
+
+const MIN_TEXT_LENGTH = 200;
+const DEFAULT_MAX_PAGES = 5;
+// Articles that already have a report keep their status when re-extracted
+const LOCKED_STATUSES = ['humanized', 'published'];
+
+// Query parameters and path suffixes that number the pages of one article
+const PAGE_PARAMS = ['page', 'p', 'pg', 'pagenum', 'pagina', 'seite'];
+const PAGE_PATH_SUFFIX = /^(.*?)\/(?:page\/)?(\d{1,3})$/i;
+const NEXT_LINK_TEXT = /^(next|next page|continue|continue reading|more|›|»|→|>)$/i;
+
+export interface ExtractionResult {
+  title?: string;
+  text: string;
+  blockCount: number;
+  method: 'rules' | 'readability';
+  metadata: PageMetadata | null;
+  nextPageUrl?: string;
+  // Rule problems (bad selectors, selectors that matched nothing) that caused a fallback
+  warnings: string[];
+}
+
+interface PagesExtraction {
+  result: ExtractionResult;
+  pages: FetchedPage[];
+}
+
+export type ExtractionOutcome =
+  | { status: 'extracted'; text: string }
+  | { status: 'duplicate' }
+  | { status: 'paywalled'; wall: AccessWall }
+  | { status: 'blocked'; reason: string }
+  | { status: 'deferred'; reason: string; retryAt: Date };
 
 export class ExtractorService {
-  async extractArticleContent(article: Article): Promise<string> {
+  private accessWallDetector = new AccessWallDetector();
+  private snapshotService = new SnapshotService();
+  private urlCanonicalizer = new UrlCanonicalizer();
+  private readabilityExtractor = new ReadabilityExtractor();
+  private metadataExtractor = new MetadataExtractor();
+  private pageDecoder = new PageDecoder();
+  private revisionService = new RevisionService();
+  private crawlPolicy = new CrawlPolicy();
+
+  /**
+   * Extracts and stores the article text. Pages that turn out to duplicate an
+   * already stored article, or that only show a paywall or consent wall, are
+   * marked as such instead of producing text. Every fetched page is archived
+   * as a snapshot for later re-extraction.
+   */
+  async extractArticleContent(article: Article): Promise<ExtractionOutcome> {
     try {
       console.log(`Extracting content from: ${article.url}`);
 
-      const response = await fetch(article.url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; NewsAI Bot/1.0; +https://newsai.com/bot)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1'
-        },
-        timeout: 30000
+      const first = await this.fetchPage(article.url);
+      const rules = await this.getRules(article);
+      const extraction = await this.extractPages(first, rules, url => this.fetchPage(url));
+
+      await this.snapshotService.saveRun(article.id, extraction.pages).catch(error => {
+        console.error(`Error saving snapshot for ${article.url}:`, error);
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      return await this.storeExtraction(article, extraction, 'extract');
+    } catch (error) {
+      // Disallowed by robots.txt is a publisher decision, not a failure worth retrying
+      if (error instanceof RobotsDisallowedError) {
+        await storage.updateArticle(article.id, {
+          status: 'blocked',
+          metadata: {
+            ...article.metadata,
+            blockedBy: { reason: error.message, robotsUrl: error.robotsUrl, detectedAt: new Date().toISOString() }
+          }
+        });
+        console.log(`${article.url} is blocked: ${error.message}`);
+        return { status: 'blocked', reason: error.message };
       }
 
-      const html = await response.text();
-      const extractedText = this.extractTextFromHtml(html);
-
-      if (!extractedText || extractedText.length < 200) {
-        throw new Error('Extracted text too short or empty');
+      // The article stays fetched and is extracted once robots.txt can be read again
+      if (error instanceof RobotsUnreachableError) {
+        console.log(`Deferring ${article.url} until ${error.retryAt.toISOString()}: ${error.message}`);
+        return { status: 'deferred', reason: error.message, retryAt: error.retryAt };
       }
 
-      // Update article with extracted content
-      await storage.updateArticle(article.id, {
-        rawText: extractedText,
-        status: 'extracted'
-      });
-
-      console.log(`Successfully extracted ${extractedText.length} characters from ${article.url}`);
-      return extractedText;
-    } catch (error) {
       console.error(`Error extracting content from ${article.url}:`, error);
       
       // Mark article as failed
@@ -54,122 +109,430 @@ export class ExtractorService {
     }
   }
 
-  private extractTextFromHtml(html: string): string {
+  /**
+   * Re-runs extraction on the stored snapshot run (the latest, or the run
+   * containing snapshotId) without contacting the publisher. Unlike a live
+   * extraction, a failure leaves the article untouched.
+   */
+  async reextractFromSnapshot(article: Article, snapshotId?: string): Promise<ExtractionOutcome> {
+    const pages = await this.snapshotService.getRun(article.id, snapshotId);
+    if (pages.length === 0) {
+      throw new Error('No stored snapshot for this article');
+    }
+
+    console.log(`Re-extracting ${article.url} from ${pages.length} stored page(s)`);
+    const rules = await this.getRules(article);
+    const extraction = await this.extractPages(pages[0], rules, async (_, index) => pages[index] || null);
+    return this.storeExtraction(article, extraction, 'reextract');
+  }
+
+  /**
+   * Fetches an already extracted article again and returns its current text,
+   * or null when the page is now walled or too short to compare. The article
+   * itself is not touched; comparing and storing is up to the caller.
+   */
+  async recrawlArticle(article: Article): Promise<string | null> {
+    console.log(`Re-crawling ${article.url}`);
+
+    let first: FetchedPage;
     try {
-      // Remove script and style elements
-      html = html.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
-      html = html.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '');
-      
-      // Remove HTML comments
-      html = html.replace(/<!--[\s\S]*?-->/g, '');
-
-      // Extract content from common article containers
-      const contentSelectors = [
-        'article',
-        '[role="main"]',
-        '.post-content',
-        '.article-content',
-        '.content',
-        '.entry-content',
-        '.post-body',
-        '.article-body',
-        '.story-body',
-        '.field-item'
-      ];
-
-      let content = '';
-      
-      // Try to find content using common patterns
-      for (const selector of contentSelectors) {
-        const match = this.extractBySelector(html, selector);
-        if (match && match.length > content.length) {
-          content = match;
+      first = await this.fetchPage(article.url);
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        console.log(`Ignoring re-crawl of ${article.url}: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+    const rules = await this.getRules(article);
+    const { result, pages } = await this.extractPages(first, rules, url => this.fetchPage(url));
+
+    await this.snapshotService.saveRun(article.id, pages).catch(error => {
+      console.error(`Error saving snapshot for ${article.url}:`, error);
+    });
+
+    const wall = this.accessWallDetector.detect(first.html, result.text, first.url);
+    if (wall || result.text.length < MIN_TEXT_LENGTH) {
+      console.log(`Ignoring re-crawl of ${article.url}: ${wall ? `${wall.type} wall` : 'text too short'}`);
+      return null;
+    }
+    return result.text;
+  }
+
+  private async getRules(article: Article): Promise<SourceExtractionRules | null | undefined> {
+    const source = article.sourceId ? await storage.getSource(article.sourceId) : undefined;
+    return source?.extractionRules;
+  }
+
+  private async storeExtraction(article: Article, { result, pages }: PagesExtraction, trigger: RevisionTrigger): Promise<ExtractionOutcome> {
+    const first = pages[0];
+    const updates = this.applyPageMetadata(article, result.metadata);
+    const metadata = { ...(updates.metadata || article.metadata), pages: pages.map(page => page.url) };
+    // Re-extracting an article that already has a report must not pull it back into the pipeline
+    const keepStatus = LOCKED_STATUSES.includes(article.status);
+
+    // Checked before canonicalization so a consent redirect never becomes the article URL
+    const wall = this.accessWallDetector.detect(first.html, result.text, first.url);
+    if (wall) {
+      await storage.updateArticle(article.id, {
+        ...updates,
+        status: keepStatus ? article.status : 'paywalled',
+        metadata: { ...metadata, accessWall: { ...wall, detectedAt: new Date().toISOString() } }
+      });
+      console.log(`${article.url} is behind a ${wall.type} wall: ${wall.reason}`);
+      return { status: 'paywalled', wall };
+    }
+
+    if (await this.applyCanonicalUrl(article, first.html, first.url)) {
+      return { status: 'duplicate' };
+    }
+
+    const extractedText = result.text;
+
+    if (!extractedText || extractedText.length < MIN_TEXT_LENGTH) {
+      throw new Error('Extracted text too short or empty');
+    }
+
+    const revision = await this.revisionService.recordRevision(article, extractedText, trigger);
+
+    // Update article with extracted content
+    await storage.updateArticle(article.id, {
+      ...updates,
+      metadata,
+      rawText: extractedText,
+      ...(revision ? { contentHash: revision.contentHash } : {}),
+      status: keepStatus ? article.status : 'extracted'
+    });
+
+    console.log(`Successfully extracted ${extractedText.length} characters from ${article.url}`);
+    return { status: 'extracted', text: extractedText };
+  }
+
+  /**
+   * Moves the article to the URL the publisher declares canonical (or the one
+   * redirects landed on). Returns true when that URL already belongs to another
+   * article, in which case this one is marked as its duplicate.
+   */
+  private async applyCanonicalUrl(article: Article, html: string, landingUrl: string): Promise<boolean> {
+    const landing = this.urlCanonicalizer.normalize(landingUrl);
+    const href = cheerio.load(html)('link[rel~="canonical"][href]').first().attr('href');
+
+    let canonical = landing;
+    if (href) {
+      try {
+        const declared = new URL(href.trim(), landingUrl);
+        if (declared.protocol === 'http:' || declared.protocol === 'https:') {
+          canonical = this.urlCanonicalizer.normalize(declared.toString());
         }
+      } catch (error) {
+        // Keep the landing URL when the canonical link is malformed
       }
+    }
 
-      // If no specific content container found, extract from body
-      if (!content) {
-        content = this.extractFromBody(html);
+    if (canonical === article.url) return false;
+
+    const existing = await storage.getArticleByUrl(canonical);
+    if (existing && existing.id !== article.id) {
+      await storage.updateArticle(existing.id, {
+        redirects: Array.from(new Set([...(existing.redirects || []), article.url, ...(article.redirects || [])]))
+      });
+      await storage.updateArticle(article.id, {
+        status: 'duplicate',
+        metadata: { ...article.metadata, duplicateOf: existing.id }
+      });
+      console.log(`${article.url} is a duplicate of ${existing.url}`);
+      return true;
+    }
+
+    const redirects = Array.from(new Set([...(article.redirects || []), article.url, landing]))
+      .filter(url => url !== canonical);
+    await storage.updateArticle(article.id, { url: canonical, redirects });
+    article.url = canonical;
+    article.redirects = redirects;
+    return false;
+  }
+
+  /**
+   * Merges page metadata into the feed-provided fields. The page is the more
+   * reliable source for bylines, language and images; the feed's publish date
+   * and description are kept when present.
+   */
+  private applyPageMetadata(article: Article, page: PageMetadata | null): Partial<Article> {
+    if (!page) return {};
+
+    const tags = Array.from(new Set([...(article.tags || []), ...page.tags]));
+    const metadata: Record<string, any> = {
+      ...article.metadata,
+      description: article.metadata?.description || page.description,
+      imageUrl: page.imageUrl || article.metadata?.imageUrl,
+      section: page.section || article.metadata?.section,
+      publisher: page.publisher || article.metadata?.publisher,
+      modifiedAt: page.modifiedAt?.toISOString() || article.metadata?.modifiedAt
+    };
+
+    return {
+      authors: page.authors.length > 0 ? page.authors : article.authors,
+      publishedAt: article.publishedAt || page.publishedAt || null,
+      language: page.language || article.language,
+      tags,
+      metadata
+    };
+  }
+
+  async fetchPage(url: string): Promise<FetchedPage> {
+    await this.crawlPolicy.beforeRequest(url, { checkRobots: true });
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; NewsAI Bot/1.0; +https://newsai.com/bot)',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate',
+        'DNT': '1',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1'
+      },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    const decoded = this.pageDecoder.decode(new Uint8Array(await response.arrayBuffer()), response.headers.get('content-type'));
+    return { html: decoded.text, url: response.url || url, statusCode: response.status, headers };
+  }
+
+  getMaxPages(): number {
+    const maxPages = parseInt(process.env.EXTRACTION_MAX_PAGES || '', 10);
+    return maxPages > 0 ? maxPages : DEFAULT_MAX_PAGES;
+  }
+
+  /**
+   * Extracts the first page and follows next-page links up to the page limit,
+   * stitching the text in order. Blocks repeated on later pages (standfirsts,
+   * recaps) are kept only once. A page that fails to load ends the article.
+   */
+  private async extractPages(
+    first: FetchedPage,
+    rules: SourceExtractionRules | null | undefined,
+    loadPage: (url: string, index: number) => Promise<FetchedPage | null>
+  ): Promise<PagesExtraction> {
+    const result = this.extractFromHtml(first.html, first.url, rules);
+    const pages = [first];
+    const visited = [first.url];
+    const seenBlocks = new Set(result.text.split('\n\n'));
+    const maxPages = this.getMaxPages();
+
+    let next = result.nextPageUrl;
+    while (next && pages.length < maxPages && !visited.includes(next)) {
+      let page: FetchedPage | null;
+      try {
+        page = await loadPage(next, pages.length);
+      } catch (error) {
+        console.warn(`Stopped after page ${pages.length} of ${first.url}: ${error instanceof Error ? error.message : error}`);
+        break;
       }
+      if (!page) break;
 
-      // Clean up the extracted text
-      content = this.cleanExtractedText(content);
+      const pageResult = this.extractFromHtml(page.html, page.url, rules);
+      const blocks = pageResult.text.split('\n\n').filter(block => block && !seenBlocks.has(block));
+      blocks.forEach(block => seenBlocks.add(block));
 
-      return content;
-    } catch (error) {
-      console.error('Error extracting text from HTML:', error);
-      return '';
+      if (blocks.length > 0) {
+        result.text = result.text ? `${result.text}\n\n${blocks.join('\n\n')}` : blocks.join('\n\n');
+        result.blockCount += blocks.length;
+      }
+      pages.push(page);
+      visited.push(next, page.url);
+      next = pageResult.nextPageUrl;
     }
+
+    if (pages.length > 1) {
+      console.log(`Stitched ${pages.length} pages for ${first.url}`);
+    }
+    result.nextPageUrl = undefined;
+    return { result, pages };
   }
 
-  private extractBySelector(html: string, selector: string): string {
-    try {
-      // Simple regex-based extraction for common selectors
-      let pattern: RegExp;
-      
-      if (selector === 'article') {
-        pattern = /<article[^>]*>([\s\S]*?)<\/article>/i;
-      } else if (selector.startsWith('.')) {
-        const className = selector.substring(1);
-        pattern = new RegExp(`<[^>]*class="[^"]*${className}[^"]*"[^>]*>([\\s\\S]*?)<\/[^>]+>`, 'i');
-      } else if (selector.startsWith('[')) {
-        // Handle attribute selectors like [role="main"]
-        const attrMatch = selector.match(/\[(\w+)="([^"]+)"\]/);
-        if (attrMatch) {
-          const [, attr, value] = attrMatch;
-          pattern = new RegExp(`<[^>]*${attr}="[^"]*${value}[^"]*"[^>]*>([\\s\\S]*?)<\/[^>]+>`, 'i');
+  /**
+   * Extracts text and metadata from a page, applying the source's extraction
+   * rules first and falling back to the generic extractor when they fail.
+   */
+  extractFromHtml(html: string, pageUrl: string, rules?: SourceExtractionRules | null): ExtractionResult {
+    const warnings: string[] = [];
+    let content: ExtractedContent | undefined;
+    let method: ExtractionResult['method'] = 'readability';
+
+    if (rules && (rules.contentSelector || rules.excludeSelectors?.length)) {
+      try {
+        content = this.readabilityExtractor.extract(html, rules);
+        if (rules.contentSelector && !content.usedContentSelector) {
+          // Exclusions still applied; the generic scoring picked the content
+          warnings.push(`Content selector "${rules.contentSelector}" matched nothing`);
+        } else if (content.text.length < MIN_TEXT_LENGTH) {
+          warnings.push(`Rules produced only ${content.text.length} characters`);
+          content = undefined;
         } else {
-          return '';
+          method = 'rules';
         }
-      } else {
-        pattern = new RegExp(`<${selector}[^>]*>([\\s\\S]*?)<\/${selector}>`, 'i');
+      } catch (error) {
+        warnings.push(`Invalid content or exclude selector: ${error instanceof Error ? error.message : error}`);
+        content = undefined;
       }
+    }
 
-      const match = html.match(pattern);
-      return match ? this.stripHtmlTags(match[1]) : '';
+    if (!content) {
+      try {
+        content = this.readabilityExtractor.extract(html);
+      } catch (error) {
+        console.error('Error extracting text from HTML:', error);
+        content = { text: '', blockCount: 0, usedContentSelector: false };
+      }
+    }
+
+    let metadata: PageMetadata | null = null;
+    try {
+      metadata = this.metadataExtractor.extract(html, pageUrl);
     } catch (error) {
-      return '';
+      console.error('Error extracting metadata from HTML:', error);
+    }
+
+    let nextPageUrl: string | undefined;
+    if (rules) {
+      const $ = cheerio.load(html);
+      const selected = this.applySelectorRules($, rules, pageUrl, warnings);
+      if (metadata) {
+        if (selected.authors.length > 0) metadata.authors = selected.authors;
+        if (selected.publishedAt) metadata.publishedAt = selected.publishedAt;
+      }
+      nextPageUrl = selected.nextPageUrl;
     }
+    if (!nextPageUrl) {
+      nextPageUrl = this.findNextPageUrl(cheerio.load(html), pageUrl);
+    }
+
+    return {
+      title: content.title,
+      text: content.text,
+      blockCount: content.blockCount,
+      method,
+      metadata,
+      nextPageUrl,
+      warnings
+    };
   }
 
-  private extractFromBody(html: string): string {
-    // Extract from body tag
-    const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-    if (!bodyMatch) return '';
-
-    let bodyContent = bodyMatch[1];
-    
-    // Remove common non-content elements
-    bodyContent = bodyContent.replace(/<nav\b[^>]*>[\s\S]*?<\/nav>/gi, '');
-    bodyContent = bodyContent.replace(/<header\b[^>]*>[\s\S]*?<\/header>/gi, '');
-    bodyContent = bodyContent.replace(/<footer\b[^>]*>[\s\S]*?<\/footer>/gi, '');
-    bodyContent = bodyContent.replace(/<aside\b[^>]*>[\s\S]*?<\/aside>/gi, '');
-    bodyContent = bodyContent.replace(/<div[^>]*class="[^"]*(?:sidebar|menu|navigation|ad|advertisement)[^"]*"[^>]*>[\s\S]*?<\/div>/gi, '');
-
-    return this.stripHtmlTags(bodyContent);
+  /**
+   * Finds the link to the next page of the same article: rel="next" first,
+   * then "Next" links inside pagination blocks. Links that leave the article
+   * (e.g. rel="next" pointing at the next blog post) are ignored.
+   */
+  private findNextPageUrl($: CheerioAPI, pageUrl: string): string | undefined {
+    const hrefs = [
+      ...$('link[rel~="next"][href], a[rel~="next"][href]').toArray(),
+      ...$('.pagination a[href], .pager a[href], .page-numbers a[href], a.page-numbers[href], nav[aria-label*="pag" i] a[href]')
+        .toArray()
+        .filter(el => {
+          const link = $(el);
+          return NEXT_LINK_TEXT.test(link.text().replace(/\s+/g, ' ').trim()) || /(^|\s)next(\s|$)/i.test(link.attr('class') || '');
+        })
+    ].map(el => $(el).attr('href')!);
+
+    for (const href of hrefs) {
+      try {
+        const current = new URL(pageUrl);
+        const next = new URL(href, pageUrl);
+        current.hash = '';
+        next.hash = '';
+        if (this.isContinuation(current, next)) {
+          return next.toString();
+        }
+      } catch (error) {
+        // Ignore malformed links
+      }
+    }
+    return undefined;
   }
 
-  private stripHtmlTags(html: string): string {
-    // Remove HTML tags but preserve some formatting
-    return html
-      .replace(/<br\s*\/?>/gi, '\n')
-      .replace(/<\/p>/gi, '\n\n')
-      .replace(/<[^>]+>/g, '')
-      .replace(/&nbsp;/g, ' ')
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'");
+  private isContinuation(current: URL, next: URL): boolean {
+    if (current.hostname !== next.hostname || current.toString() === next.toString()) {
+      return false;
+    }
+
+    const baseQuery = (url: URL) => Array.from(url.searchParams.entries())
+      .filter(([key]) => !PAGE_PARAMS.includes(key.toLowerCase()))
+      .map(([key, value]) => `${key}=${value}`)
+      .sort()
+      .join('&');
+    if (baseQuery(current) !== baseQuery(next)) return false;
+
+    const currentPath = current.pathname.replace(/\/$/, '');
+    const nextPath = next.pathname.replace(/\/$/, '');
+    if (currentPath === nextPath) return true;
+
+    // /story -> /story/2 or /story/page/2, and /story/2 -> /story/3
+    const nextMatch = nextPath.match(PAGE_PATH_SUFFIX);
+    if (!nextMatch) return false;
+    const currentMatch = currentPath.match(PAGE_PATH_SUFFIX);
+    if (currentMatch && currentMatch[1] === nextMatch[1]) {
+      return parseInt(nextMatch[2], 10) === parseInt(currentMatch[2], 10) + 1;
+    }
+    return nextMatch[1] === currentPath;
   }
 
-  private cleanExtractedText(text: string): string {
-    // Remove excess whitespace and clean up text
-    return text
-      .replace(/\n{3,}/g, '\n\n')
-      .replace(/[ \t]{2,}/g, ' ')
-      .replace(/^\s+|\s+$/gm, '')
-      .trim();
+  private applySelectorRules(
+    $: CheerioAPI,
+    rules: SourceExtractionRules,
+    pageUrl: string,
+    warnings: string[]
+  ): { authors: string[]; publishedAt?: Date; nextPageUrl?: string } {
+    const select = (label: string, selector: string | undefined) => {
+      if (!selector) return [];
+      try {
+        const matches = $(selector).toArray();
+        if (matches.length === 0) warnings.push(`${label} selector "${selector}" matched nothing`);
+        return matches;
+      } catch (error) {
+        warnings.push(`Invalid ${label.toLowerCase()} selector "${selector}"`);
+        return [];
+      }
+    };
+
+    const authors = select('Author', rules.authorSelector)
+      .map(el => $(el).text().replace(/\s+/g, ' ').trim().replace(/^by\s+/i, ''))
+      .filter(Boolean);
+
+    let publishedAt: Date | undefined;
+    const dateEl = select('Date', rules.dateSelector)[0];
+    if (dateEl) {
+      const node = $(dateEl);
+      const value = node.attr('datetime') || node.attr('content') || node.text().trim();
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        warnings.push(`Could not parse date "${value}"`);
+      } else {
+        publishedAt = date;
+      }
+    }
+
+    let nextPageUrl: string | undefined;
+    const nextEl = select('Pagination', rules.paginationSelector)[0];
+    const href = nextEl ? ($(nextEl).attr('href') || $(nextEl).find('a[href]').first().attr('href')) : undefined;
+    if (href) {
+      try {
+        nextPageUrl = new URL(href, pageUrl).toString();
+      } catch (error) {
+        warnings.push(`Invalid pagination link "${href}"`);
+      }
+    }
+
+    return { authors: Array.from(new Set(authors)), publishedAt, nextPageUrl };
   }
 
   async processExtractionJobs(): Promise<void> {
@@ -190,14 +553,16 @@ export class ExtractorService {
           throw new Error(`Article not found: ${articleId}`);
         }
 
-        await this.extractArticleContent(article as any);
+        const outcome = await this.extractArticleContent(article as any);
 
-        // Create humanization job
-        await storage.createJob({
-          type: 'humanize',
-          status: 'pending',
-          data: { articleId }
-        });
+        // Create humanization job; paywalled articles are summarized from the feed teaser
+        if (outcome.status !== 'duplicate' && outcome.status !== 'blocked' && outcome.status !== 'deferred') {
+          await storage.createJob({
+            type: 'humanize',
+            status: 'pending',
+            data: { articleId }
+          });
+        }
 
         await storage.updateJob(job.id, {
           status: 'completed',
@@ -0,0 +1,348 @@
+import { type FactCheckKind, type FactCheckResult, type Report } from "@shared/schema";
+
+type ReportEntities = NonNullable<Report['entities']>;
+
+interface Quantity {
+  kind: 'number' | 'percentage' | 'currency';
+  value: number;
+  // Half of this is how far a source figure may be from the claim and still round to it
+  unit: number;
+  currency?: string;
+  text: string;
+  index: number;
+}
+
+interface DateMention {
+  year?: number;
+  month?: number;
+  day?: number;
+  // A four-digit number on its own, which may be a year or a count
+  bareYear: boolean;
+  text: string;
+  index: number;
+}
+
+interface Match {
+  evidence: string;
+  confidence: number;
+}
+
+const MAX_RULE_CHECKS = 100;
+const CONTEXT_MAX_CHARS = 300;
+
+const MONTH_NAMES = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; parts: Array<'year' | 'month' | 'day'> }> = [
+  { pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g, parts: ['year', 'month', 'day'] },
+  { pattern: new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g'), parts: ['month', 'day', 'year'] },
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAMES})\\b\\.?(?:,?\\s+(\\d{4})\\b)?`, 'g'), parts: ['day', 'month', 'year'] },
+  { pattern: new RegExp(`\\b(${MONTH_NAMES})\\.?,?\\s+(\\d{4})\\b`, 'g'), parts: ['month', 'year'] },
+  { pattern: /\b(1[89]\d\d|20\d\d)\b/g, parts: ['year'] }
+];
+
+const QUANTITY_PATTERN = /(US\$|A\$|C\$|\$|€|£|¥|₹|\b(?:USD|EUR|GBP|JPY|INR|AUD|CAD)\s?)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(trillion|billion|million|thousand)\b|(tn|bn|m|k)\b)?(\s?(?:%|per ?cent\b|percentage points?\b))?(\s(?:dollars|euros|pounds|yen|rupees)\b)?/gi;
+
+// Source articles often spell small numbers out ("three people") where reports use digits
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90, hundred: 100, dozen: 12
+};
+const NUMBER_WORD_PATTERN = new RegExp(`\\b(${Object.keys(NUMBER_WORDS).join('|')})(?:\\s+(hundred|thousand|million|billion|trillion))?\\b`, 'gi');
+
+const SCALES: Record<string, number> = {
+  hundred: 1e2, thousand: 1e3, k: 1e3, million: 1e6, m: 1e6, billion: 1e9, bn: 1e9, trillion: 1e12, tn: 1e12
+};
+
+const CURRENCIES: Record<string, string> = {
+  'us$': 'USD', '$': 'USD', 'a$': 'AUD', 'c$': 'CAD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR',
+  dollars: 'USD', euros: 'EUR', pounds: 'GBP', yen: 'JPY', rupees: 'INR'
+};
+
+// Capitalised words joined by the particles names use ("Bank of England", "Ursula von der Leyen")
+const NAME_PATTERN = /[A-Z][A-Za-z\u00C0-\u024F'\u2019&-]*(?:\s+(?:(?:of|the|de|la|van|von|der|del|du)\s+)*[A-Z][A-Za-z\u00C0-\u024F'\u2019&-]*)+/g;
+
+const LEADING_WORDS = [
+  'a', 'an', 'the', 'in', 'on', 'at', 'by', 'for', 'from', 'to', 'of', 'with', 'as', 'and', 'but', 'or',
+  'if', 'so', 'yet', 'also', 'this', 'that', 'these', 'those', 'its', 'their', 'his', 'her', 'our',
+  'however', 'meanwhile', 'while', 'when', 'after', 'before', 'according', 'last', 'next', 'since'
+];
+const CALENDAR_WORDS = [
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'january', 'february',
+  'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+export class FactVerifier {
+  /**
+   * Confirms that the figures, dates and names in a report appear in the source
+   * text. Each one becomes a "rule" fact check: verified when a matching mention
+   * (after normalising number formats, scales and date styles) is found.
+   */
+  verify(reportText: string, sourceText: string, entities?: ReportEntities | null): FactCheckResult[] {
+    const report = this.normalizeSpaces(reportText);
+    const source = this.normalizeSpaces(sourceText);
+
+    const sourceDates = this.extractDates(source);
+    const sourceQuantities = this.extractQuantities(source, sourceDates.filter(date => !date.bareYear))
+      .concat(this.extractNumberWords(source));
+    const sourceWords = this.normalizeName(source);
+
+    const reportDates = this.extractDates(report);
+    const checks: Array<{ check: FactCheckResult; index: number }> = [];
+    const seen = new Set<string>();
+
+    const add = (kind: FactCheckKind, claim: string, index: number, match: Match | undefined) => {
+      const key = `${kind}:${claim.toLowerCase()}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      checks.push({ index, check: {
+        claim,
+        verified: !!match,
+        // Unmatched names are more often spelling variants than errors
+        confidence: match ? match.confidence : kind === 'entity' ? 70 : 90,
+        method: 'rule',
+        kind,
+        context: this.sentenceAround(report, index, index + claim.length),
+        evidence: match?.evidence
+      } });
+    };
+
+    reportDates.forEach(date => add('date', date.text, date.index, this.matchDate(date, sourceDates, sourceQuantities)));
+    this.extractQuantities(report, reportDates).forEach(quantity =>
+      add(quantity.kind, quantity.text, quantity.index, this.matchQuantity(quantity, sourceQuantities)));
+    this.extractNames(report, entities).forEach(name =>
+      add('entity', name.text, name.index, this.matchName(name.text, sourceWords)));
+
+    // In reading order, so the reviewer can follow the report
+    return checks
+      .sort((a, b) => a.index - b.index)
+      .slice(0, MAX_RULE_CHECKS)
+      .map(entry => entry.check);
+  }
+
+  private extractDates(text: string): DateMention[] {
+    const found: DateMention[] = [];
+
+    DATE_PATTERNS.forEach(({ pattern, parts }) => {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        const date: DateMention = { bareYear: parts.length === 1, text: match[0].trim(), index: match.index };
+        parts.forEach((part, i) => {
+          const value = match![i + 1];
+          if (!value) return;
+          date[part] = part === 'month' && /[a-z]/i.test(value)
+            ? MONTHS.indexOf(value.slice(0, 3).toLowerCase()) + 1
+            : parseInt(value, 10);
+        });
+
+        const validMonth = date.month === undefined || (date.month >= 1 && date.month <= 12);
+        const validDay = date.day === undefined || (date.day >= 1 && date.day <= 31);
+        // "2024.5" and "2024,000" are not years
+        const partOfNumber = date.bareYear && /^[.,]\d/.test(text.slice(match.index + match[0].length));
+        if (validMonth && validDay && !partOfNumber) found.push(date);
+      }
+    });
+
+    // Where patterns overlap, the longest mention starting first wins
+    found.sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+    const dates: DateMention[] = [];
+    let end = 0;
+    for (const date of found) {
+      if (date.index < end) continue;
+      dates.push(date);
+      end = date.index + date.text.length;
+    }
+    return dates;
+  }
+
+  private extractQuantities(text: string, skip: DateMention[]): Quantity[] {
+    const quantities: Quantity[] = [];
+    QUANTITY_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = QUANTITY_PATTERN.exec(text)) !== null) {
+      const [whole, symbol, integer, fraction, longScale, shortScale, percent, currencyWord] = match;
+      const start = match.index;
+      const end = start + whole.length;
+      const before = text.slice(Math.max(0, start - 2), start);
+      const after = text.slice(end, end + 3);
+
+      // Model numbers, versions, times, ordinals and figures inside dates are not checked
+      if (!symbol && /[A-Za-z0-9.,:]$/.test(before)) continue;
+      if (!symbol && /[A-Za-z]-$/.test(before)) continue;
+      if (/^:\d/.test(after) || /^[.,]\d/.test(after)) continue;
+      if (!longScale && !shortScale && !percent && /^(st|nd|rd|th)\b/i.test(after)) continue;
+      if (skip.some(date => start < date.index + date.text.length && end > date.index)) continue;
+
+      const scale = SCALES[(longScale || shortScale || '').toLowerCase()] || 1;
+      const decimals = fraction ? fraction.length - 1 : 0;
+      const currencyKey = (symbol || currencyWord || '').trim().toLowerCase();
+      const currency = CURRENCIES[currencyKey] || (currencyKey ? currencyKey.toUpperCase() : undefined);
+
+      quantities.push({
+        kind: percent ? 'percentage' : currency ? 'currency' : 'number',
+        value: parseFloat(`${integer.replace(/,/g, '')}${fraction || ''}`) * scale,
+        unit: Math.pow(10, -decimals) * scale,
+        currency,
+        text: whole.trim(),
+        index: start
+      });
+    }
+    return quantities;
+  }
+
+  private extractNumberWords(text: string): Quantity[] {
+    const quantities: Quantity[] = [];
+    NUMBER_WORD_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = NUMBER_WORD_PATTERN.exec(text)) !== null) {
+      const scale = SCALES[(match[2] || '').toLowerCase()] || 1;
+      quantities.push({
+        kind: 'number',
+        value: NUMBER_WORDS[match[1].toLowerCase()] * scale,
+        unit: scale,
+        text: match[0],
+        index: match.index
+      });
+    }
+    return quantities;
+  }
+
+  private extractNames(text: string, entities?: ReportEntities | null): Array<{ text: string; index: number }> {
+    const names: Array<{ text: string; index: number }> = [];
+
+    // Single-word names ("Reuters", "Paris") are only checked when the report lists them as entities
+    const listed = entities ? entities.orgs.concat(entities.persons, entities.places) : [];
+    listed.forEach(name => {
+      const index = text.indexOf(name.trim());
+      if (name.trim().length >= 3 && index >= 0) names.push({ text: name.trim(), index });
+    });
+
+    NAME_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = NAME_PATTERN.exec(text)) !== null) {
+      if (match.index > 0 && /[A-Za-z]/.test(text[match.index - 1])) continue;
+
+      const words = match[0].replace(/['\u2019]s$/, '').replace(/-+$/, '').split(/\s+/);
+      let offset = 0;
+      while (words.length > 0 && LEADING_WORDS.indexOf(words[0].toLowerCase()) >= 0) {
+        offset += words[0].length + 1;
+        words.shift();
+      }
+      while (words.length > 0 && /^(of|the|de|la|van|von|der|del|du)$/.test(words[words.length - 1])) {
+        words.pop();
+      }
+
+      const capitalised = words.filter(word => /^[A-Z]/.test(word));
+      if (capitalised.length < 2) continue;
+      if (capitalised.every(word => CALENDAR_WORDS.indexOf(word.toLowerCase()) >= 0)) continue;
+      names.push({ text: words.join(' '), index: match.index + offset });
+    }
+    return names;
+  }
+
+  private matchQuantity(claim: Quantity, source: Quantity[]): Match | undefined {
+    let best: Match | undefined;
+    for (const candidate of source) {
+      let confidence: number;
+      if (claim.kind === 'percentage') {
+        if (candidate.kind !== 'percentage') continue;
+        confidence = 95;
+      } else if (claim.kind === 'currency') {
+        if (candidate.kind === 'percentage') continue;
+        if (candidate.kind === 'currency' && candidate.currency !== claim.currency) continue;
+        // The report attached a currency the source does not state
+        confidence = candidate.kind === 'currency' ? 95 : 70;
+      } else {
+        confidence = 90;
+      }
+
+      const difference = Math.abs(candidate.value - claim.value);
+      if (difference > Math.max(claim.value, 1) * 1e-9) {
+        // "1.2 billion" for 1,234,567,890 is a rounding, not an error
+        if (difference > claim.unit / 2) continue;
+        confidence -= 15;
+      }
+      if (!best || confidence > best.confidence) {
+        best = { evidence: candidate.text, confidence };
+      }
+    }
+    return best;
+  }
+
+  private matchDate(claim: DateMention, source: DateMention[], quantities: Quantity[]): Match | undefined {
+    let best: Match | undefined;
+    for (const candidate of source) {
+      if (claim.month !== undefined && candidate.month !== claim.month) continue;
+      if (claim.day !== undefined && candidate.day !== claim.day) continue;
+      if (claim.year !== undefined && candidate.year !== undefined && candidate.year !== claim.year) continue;
+
+      // "5 March" in the source supports "5 March 2024" but does not confirm the year
+      const confidence = claim.year !== undefined && candidate.year === undefined ? 70 : 95;
+      if (!best || confidence > best.confidence) {
+        best = { evidence: candidate.text, confidence };
+      }
+    }
+
+    if (!best && claim.bareYear) {
+      const count = quantities.filter(quantity => quantity.kind === 'number' && quantity.value === claim.year)[0];
+      if (count) best = { evidence: count.text, confidence: 80 };
+    }
+    return best;
+  }
+
+  private matchName(name: string, normalizedSource: string): Match | undefined {
+    const normalized = this.normalizeName(name);
+    if (!normalized) return undefined;
+    if (` ${normalizedSource} `.indexOf(` ${normalized} `) >= 0) {
+      return { evidence: name, confidence: 95 };
+    }
+
+    // Every word present, in another order or split up ("Powell, Jerome"); worth a look but not an error
+    const sourceWords = ` ${normalizedSource} `;
+    const words = normalized.split(' ').filter(word => word.length >= 3 && LEADING_WORDS.indexOf(word) < 0);
+    if (words.length > 0 && words.every(word => sourceWords.indexOf(` ${word} `) >= 0)) {
+      return { evidence: words.join(' '), confidence: 60 };
+    }
+    return undefined;
+  }
+
+  private normalizeSpaces(text: string): string {
+    return text.replace(/[\u00a0\u2009\u202f]/g, ' ').replace(/[\u2018\u2019]/g, "'");
+  }
+
+  private normalizeName(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/'s\b/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  private sentenceAround(text: string, start: number, end: number): string {
+    const before = text.slice(0, start);
+    const from = Math.max(
+      ...['. ', '! ', '? ', '\n'].map(mark => {
+        const at = before.lastIndexOf(mark);
+        return at >= 0 ? at + mark.length : 0;
+      })
+    );
+    const ends = ['. ', '! ', '? ', '\n']
+      .map(mark => text.indexOf(mark, end))
+      .filter(at => at >= 0);
+    const to = ends.length > 0 ? Math.min(...ends) + 1 : text.length;
+
+    const sentence = text.slice(from, to).trim();
+    if (sentence.length <= CONTEXT_MAX_CHARS) return sentence;
+
+    // Keep the claim in view when the sentence is too long to show whole
+    const windowStart = Math.max(from, start - CONTEXT_MAX_CHARS / 2);
+    return `...${text.slice(windowStart, windowStart + CONTEXT_MAX_CHARS).trim()}...`;
+  }
+}
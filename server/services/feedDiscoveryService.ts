@@ -0,0 +1,263 @@
+import * as cheerio from "cheerio";
+import { gunzipSync } from "zlib";
+import { FeedParser, type FeedFormat } from "./feedParser";
+import { SitemapParser } from "./sitemapParser";
+import { PageDecoder } from "./pageDecoder";
+
+const DISCOVERY_TIMEOUT_MS = 10 * 1000;
+const SAMPLE_TITLE_COUNT = 3;
+
+const FEED_LINK_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+  'application/json'
+];
+
+const COMMON_FEED_PATHS = [
+  '/feed',
+  '/feed/',
+  '/rss',
+  '/rss.xml',
+  '/feed.xml',
+  '/atom.xml',
+  '/index.xml',
+  '/feed.json',
+  '/feeds/posts/default'
+];
+
+const COMMON_SITEMAP_PATHS = [
+  '/news-sitemap.xml',
+  '/sitemap_news.xml',
+  '/sitemap-news.xml',
+  '/sitemap.xml',
+  '/sitemap_index.xml'
+];
+
+export type DiscoverySource = 'link-tag' | 'common-path' | 'robots-txt';
+
+export interface DiscoveredFeed {
+  url: string;
+  type: 'rss' | 'sitemap';
+  format: FeedFormat | 'sitemap' | 'sitemap-index' | 'news-sitemap';
+  title?: string;
+  itemCount: number;
+  sampleTitles: string[];
+  latestItemAt?: Date;
+  discoveredVia: DiscoverySource;
+  score: number;
+  // Ready to POST to /api/admin/sources once a category is chosen
+  suggestedSource: {
+    name: string;
+    domain: string;
+    type: 'rss' | 'sitemap';
+    rssUrl?: string;
+    sitemapUrl?: string;
+  };
+}
+
+export interface DiscoveryResult {
+  siteUrl: string;
+  siteTitle?: string;
+  feeds: DiscoveredFeed[];
+}
+
+interface Candidate {
+  url: string;
+  kind: 'feed' | 'sitemap';
+  discoveredVia: DiscoverySource;
+}
+
+export class FeedDiscoveryService {
+  private feedParser = new FeedParser();
+  private sitemapParser = new SitemapParser();
+  private pageDecoder = new PageDecoder();
+
+  async discover(siteUrl: string): Promise<DiscoveryResult> {
+    const homepage = this.normalizeSiteUrl(siteUrl);
+    const domain = homepage.hostname.toLowerCase().replace(/^www\./, '');
+
+    let siteTitle: string | undefined;
+    const candidates: Candidate[] = [];
+
+    try {
+      const html = await this.fetchText(homepage.toString());
+      const $ = cheerio.load(html);
+      siteTitle = $('meta[property="og:site_name"]').attr('content')?.trim()
+        || $('title').first().text().trim()
+        || undefined;
+
+      $('link[rel~="alternate"][href]').each((_, el) => {
+        const type = ($(el).attr('type') || '').toLowerCase().split(';')[0].trim();
+        if (!FEED_LINK_TYPES.includes(type)) return;
+        this.addCandidate(candidates, $(el).attr('href')!, homepage, 'feed', 'link-tag');
+      });
+    } catch (error) {
+      // An unreachable homepage still leaves the well-known paths to probe
+      console.warn(`Could not load homepage ${homepage}:`, error instanceof Error ? error.message : error);
+    }
+
+    try {
+      const robots = await this.fetchText(new URL('/robots.txt', homepage).toString());
+      robots.split(/\r?\n/).forEach(line => {
+        const match = line.match(/^\s*sitemap\s*:\s*(\S+)/i);
+        if (match) this.addCandidate(candidates, match[1], homepage, 'sitemap', 'robots-txt');
+      });
+    } catch (error) {
+      // robots.txt is optional
+    }
+
+    COMMON_FEED_PATHS.forEach(path => this.addCandidate(candidates, path, homepage, 'feed', 'common-path'));
+    COMMON_SITEMAP_PATHS.forEach(path => this.addCandidate(candidates, path, homepage, 'sitemap', 'common-path'));
+
+    const feeds: DiscoveredFeed[] = [];
+    const seenContent = new Set<string>();
+
+    for (const candidate of candidates) {
+      const feed = await this.validate(candidate, domain, siteTitle);
+      if (!feed) continue;
+
+      // /feed and /feed/ (or /rss and /rss.xml) often serve the same document
+      const fingerprint = `${feed.type}:${feed.title || ''}:${feed.itemCount}:${feed.sampleTitles.join('|')}`;
+      if (seenContent.has(fingerprint)) continue;
+      seenContent.add(fingerprint);
+
+      feeds.push(feed);
+    }
+
+    feeds.sort((a, b) => b.score - a.score);
+
+    return { siteUrl: homepage.toString(), siteTitle, feeds };
+  }
+
+  private async validate(candidate: Candidate, domain: string, siteTitle?: string): Promise<DiscoveredFeed | null> {
+    let body: string;
+    try {
+      body = await this.fetchText(candidate.url);
+    } catch (error) {
+      return null;
+    }
+
+    // A common path may answer with a feed or a sitemap regardless of its name
+    return candidate.kind === 'sitemap'
+      ? this.asSitemap(body, candidate, domain, siteTitle) || this.asFeed(body, candidate, domain, siteTitle)
+      : this.asFeed(body, candidate, domain, siteTitle) || this.asSitemap(body, candidate, domain, siteTitle);
+  }
+
+  private asFeed(body: string, candidate: Candidate, domain: string, siteTitle?: string): DiscoveredFeed | null {
+    try {
+      const feed = this.feedParser.parse(body, candidate.url);
+      const latestItemAt = this.latest(feed.items.map(item => item.publishedAt));
+      const name = feed.title || siteTitle || domain;
+
+      return {
+        url: candidate.url,
+        type: 'rss',
+        format: feed.format,
+        title: feed.title,
+        itemCount: feed.items.length,
+        sampleTitles: feed.items.slice(0, SAMPLE_TITLE_COUNT).map(item => item.title),
+        latestItemAt,
+        discoveredVia: candidate.discoveredVia,
+        score: this.score(candidate, feed.items.length, latestItemAt, 3),
+        suggestedSource: { name, domain, type: 'rss', rssUrl: candidate.url }
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private asSitemap(body: string, candidate: Candidate, domain: string, siteTitle?: string): DiscoveredFeed | null {
+    try {
+      const sitemap = this.sitemapParser.parse(body, candidate.url);
+      const isNews = sitemap.urls.some(url => !!url.news);
+      const entries = sitemap.kind === 'index' ? sitemap.sitemaps : sitemap.urls;
+      const latestItemAt = this.latest(entries.map(entry => entry.news?.publicationDate || entry.lastmod));
+
+      return {
+        url: candidate.url,
+        type: 'sitemap',
+        format: sitemap.kind === 'index' ? 'sitemap-index' : isNews ? 'news-sitemap' : 'sitemap',
+        itemCount: entries.length,
+        sampleTitles: sitemap.urls
+          .filter(url => url.news?.title)
+          .slice(0, SAMPLE_TITLE_COUNT)
+          .map(url => url.news!.title!),
+        latestItemAt,
+        discoveredVia: candidate.discoveredVia,
+        score: this.score(candidate, entries.length, latestItemAt, isNews ? 2 : 0),
+        suggestedSource: { name: siteTitle || domain, domain, type: 'sitemap', sitemapUrl: candidate.url }
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Prefer what the publisher advertises, then real feeds over sitemaps, then fresh and full ones
+  private score(candidate: Candidate, itemCount: number, latestItemAt: Date | undefined, formatBonus: number): number {
+    let score = formatBonus;
+    if (candidate.discoveredVia === 'link-tag') score += 4;
+    if (candidate.discoveredVia === 'robots-txt') score += 1;
+    if (itemCount > 0) score += Math.min(itemCount, 50) / 25;
+
+    if (latestItemAt) {
+      const ageDays = (Date.now() - latestItemAt.getTime()) / (24 * 60 * 60 * 1000);
+      if (ageDays <= 2) score += 2;
+      else if (ageDays <= 30) score += 1;
+    }
+
+    return Math.round(score * 100) / 100;
+  }
+
+  private latest(dates: Array<Date | undefined>): Date | undefined {
+    const times = dates
+      .filter((date): date is Date => !!date && !isNaN(date.getTime()))
+      .map(date => date.getTime());
+    return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+  }
+
+  private addCandidate(
+    candidates: Candidate[],
+    href: string,
+    base: URL,
+    kind: Candidate['kind'],
+    discoveredVia: DiscoverySource
+  ): void {
+    try {
+      const url = new URL(href.trim(), base).toString();
+      if (!candidates.some(candidate => candidate.url === url)) {
+        candidates.push({ url, kind, discoveredVia });
+      }
+    } catch (error) {
+      // Ignore malformed hrefs
+    }
+  }
+
+  private normalizeSiteUrl(siteUrl: string): URL {
+    const trimmed = siteUrl.trim();
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Site URL must use http or https');
+    }
+    return url;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'NewsAI Bot 1.0 (contact@newsai.com)',
+        'Accept': 'text/html, application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8'
+      },
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+    return this.pageDecoder.decode(isGzip ? gunzipSync(buffer) : buffer, isGzip ? null : response.headers.get('content-type')).text;
+  }
+}
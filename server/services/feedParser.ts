@@ -0,0 +1,408 @@
+import * as cheerio from "cheerio";
+import { type Cheerio, type CheerioAPI } from "cheerio";
+
+export type FeedFormat = 'rss2' | 'rss1' | 'atom' | 'json';
+
+export interface FeedEnclosure {
+  url: string;
+  type?: string;
+  length?: number;
+}
+
+export interface RssItem {
+  title: string;
+  url: string;
+  publishedAt: Date;
+  updatedAt?: Date;
+  guid?: string;
+  description?: string;
+  content?: string;
+  authors?: string[];
+  categories?: string[];
+  category?: string;
+  enclosures?: FeedEnclosure[];
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title?: string;
+  link?: string;
+  ttlMinutes?: number;
+  skipHours?: number[];
+  // WebSub discovery: rel="hub" and rel="self" links advertised by the feed
+  hubs?: string[];
+  selfUrl?: string;
+  items: RssItem[];
+}
+
+export class FeedParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedParseError';
+  }
+}
+
+export class FeedParser {
+  parse(body: string, baseUrl?: string): ParsedFeed {
+    const text = body.replace(/^\uFEFF/, '').trim();
+    const format = this.detectFormat(text);
+
+    if (format === 'json') {
+      return this.parseJsonFeed(text, baseUrl);
+    }
+
+    const $ = cheerio.load(text, { xml: true });
+    switch (format) {
+      case 'atom':
+        return this.parseAtom($, baseUrl);
+      case 'rss1':
+        return this.parseRdf($, baseUrl);
+      default:
+        return this.parseRss2($, baseUrl);
+    }
+  }
+
+  detectFormat(body: string): FeedFormat {
+    if (body.startsWith('{')) {
+      return 'json';
+    }
+
+    // Look at the first real element, skipping the prolog, comments and doctype
+    const rootMatch = body.match(/<(?![?!])([\w.-]+:)?([\w.-]+)[\s>\/]/);
+    const root = rootMatch ? rootMatch[2].toLowerCase() : '';
+
+    if (root === 'feed') return 'atom';
+    if (root === 'rdf') return 'rss1';
+    if (root === 'rss' || root === 'channel') return 'rss2';
+
+    throw new FeedParseError(`Unrecognized feed format (root element: ${root || 'none'})`);
+  }
+
+  private parseRss2($: CheerioAPI, baseUrl?: string): ParsedFeed {
+    const channel = $.root().find('channel').first();
+    const feedLink = this.childText($, channel, ['link']);
+    const base = this.resolveUrl(feedLink, baseUrl) || baseUrl;
+
+    const items: RssItem[] = [];
+    channel.find('item').each((_, el) => {
+      const item = $(el);
+      const guid = this.childText($, item, ['guid']);
+      const guidIsLink = this.childElement($, item, ['guid']).attr('isPermaLink') !== 'false';
+      const link = this.childText($, item, ['link']) || (guid && guidIsLink ? guid : undefined);
+      const url = this.resolveUrl(link, base);
+      const title = this.childText($, item, ['title']);
+      if (!url || !title) return;
+
+      const enclosures: FeedEnclosure[] = [];
+      this.childElements($, item, ['enclosure']).forEach(enclosure => {
+        const enclosureUrl = this.resolveUrl(enclosure.attr('url'), base);
+        if (enclosureUrl) {
+          enclosures.push({
+            url: enclosureUrl,
+            type: enclosure.attr('type') || undefined,
+            length: this.parseLength(enclosure.attr('length'))
+          });
+        }
+      });
+
+      items.push({
+        title,
+        url,
+        publishedAt: this.parseDate(this.childText($, item, ['pubDate', 'dc:date'])) || new Date(),
+        updatedAt: this.parseDate(this.childText($, item, ['atom:updated', 'dcterms:modified'])),
+        guid: guid || undefined,
+        description: this.childText($, item, ['description']),
+        content: this.childText($, item, ['content:encoded']),
+        authors: this.uniqueValues([
+          ...this.childTexts($, item, ['dc:creator']),
+          ...this.childTexts($, item, ['author']).map(author => this.cleanRssAuthor(author))
+        ]),
+        categories: this.uniqueValues(this.childTexts($, item, ['category', 'dc:subject'])),
+        enclosures
+      });
+    });
+
+    const ttl = parseInt(this.childText($, channel, ['ttl']) || '', 10);
+    const skipHours = this.childElements($, this.childElement($, channel, ['skipHours']), ['hour'])
+      .map(hour => parseInt(hour.text(), 10))
+      .filter(hour => hour >= 0 && hour <= 23);
+
+    return {
+      format: 'rss2',
+      title: this.childText($, channel, ['title']),
+      link: feedLink,
+      ttlMinutes: ttl > 0 ? ttl : undefined,
+      skipHours,
+      ...this.webSubLinks($, channel, base),
+      items
+    };
+  }
+
+  private parseRdf($: CheerioAPI, baseUrl?: string): ParsedFeed {
+    const root = $.root().children().first();
+    const channel = this.childElement($, root, ['channel']);
+    const feedLink = this.childText($, channel, ['link']);
+    const base = this.resolveUrl(feedLink, baseUrl) || baseUrl;
+
+    // RSS 1.0 items are siblings of <channel>, not children
+    const items: RssItem[] = [];
+    this.childElements($, root, ['item']).forEach(item => {
+      const url = this.resolveUrl(this.childText($, item, ['link']) || item.attr('rdf:about'), base);
+      const title = this.childText($, item, ['title']);
+      if (!url || !title) return;
+
+      items.push({
+        title,
+        url,
+        publishedAt: this.parseDate(this.childText($, item, ['dc:date'])) || new Date(),
+        updatedAt: this.parseDate(this.childText($, item, ['dcterms:modified'])),
+        guid: item.attr('rdf:about') || undefined,
+        description: this.childText($, item, ['description']),
+        content: this.childText($, item, ['content:encoded']),
+        authors: this.uniqueValues(this.childTexts($, item, ['dc:creator'])),
+        categories: this.uniqueValues(this.childTexts($, item, ['dc:subject'])),
+        enclosures: []
+      });
+    });
+
+    return {
+      format: 'rss1',
+      title: this.childText($, channel, ['title']),
+      link: feedLink,
+      items
+    };
+  }
+
+  private parseAtom($: CheerioAPI, baseUrl?: string): ParsedFeed {
+    const feed = $.root().children().first();
+    const feedBase = this.resolveUrl(feed.attr('xml:base'), baseUrl) || baseUrl;
+    const feedLink = this.atomLink($, feed, 'alternate', feedBase);
+    const feedAuthors = this.atomPeople($, feed);
+
+    const items: RssItem[] = [];
+    this.childElements($, feed, ['entry']).forEach(entry => {
+      const entryBase = this.resolveUrl(entry.attr('xml:base'), feedBase) || feedBase;
+      const id = this.childText($, entry, ['id']);
+      const url = this.atomLink($, entry, 'alternate', entryBase) || (id && /^https?:/i.test(id) ? id : undefined);
+      const title = this.childText($, entry, ['title']);
+      if (!url || !title) return;
+
+      const updatedAt = this.parseDate(this.childText($, entry, ['updated']));
+      const authors = this.atomPeople($, entry);
+
+      const enclosures: FeedEnclosure[] = [];
+      this.childElements($, entry, ['link']).forEach(link => {
+        const href = this.resolveUrl(link.attr('href'), entryBase);
+        if (link.attr('rel') === 'enclosure' && href) {
+          enclosures.push({
+            url: href,
+            type: link.attr('type') || undefined,
+            length: this.parseLength(link.attr('length'))
+          });
+        }
+      });
+
+      items.push({
+        title,
+        url,
+        publishedAt: this.parseDate(this.childText($, entry, ['published', 'issued'])) || updatedAt || new Date(),
+        updatedAt,
+        guid: id,
+        description: this.childText($, entry, ['summary']),
+        content: this.atomContent($, entry),
+        authors: authors.length > 0 ? authors : feedAuthors,
+        categories: this.uniqueValues(
+          this.childElements($, entry, ['category']).map(category =>
+            (category.attr('label') || category.attr('term') || '').trim()
+          )
+        ),
+        enclosures
+      });
+    });
+
+    return {
+      format: 'atom',
+      title: this.childText($, feed, ['title']),
+      link: feedLink,
+      ...this.webSubLinks($, feed, feedBase),
+      items
+    };
+  }
+
+  private parseJsonFeed(text: string, baseUrl?: string): ParsedFeed {
+    let feed: any;
+    try {
+      feed = JSON.parse(text);
+    } catch (error) {
+      throw new FeedParseError('Invalid JSON Feed document');
+    }
+
+    if (typeof feed?.version !== 'string' || !feed.version.startsWith('https://jsonfeed.org/version/')) {
+      throw new FeedParseError('JSON document is not a JSON Feed');
+    }
+
+    const base = this.resolveUrl(feed.home_page_url, baseUrl) || baseUrl;
+    // JSON Feed 1.0 used a single `author` object, 1.1 uses an `authors` array
+    const feedAuthors = this.jsonFeedAuthors(feed);
+
+    const items: RssItem[] = [];
+    for (const entry of Array.isArray(feed.items) ? feed.items : []) {
+      const url = this.resolveUrl(entry.url || entry.external_url, base);
+      const title = typeof entry.title === 'string' ? entry.title.trim() : '';
+      if (!url || !title) continue;
+
+      const authors = this.jsonFeedAuthors(entry);
+      const updatedAt = this.parseDate(entry.date_modified);
+
+      items.push({
+        title,
+        url,
+        publishedAt: this.parseDate(entry.date_published) || updatedAt || new Date(),
+        updatedAt,
+        guid: entry.id !== undefined ? String(entry.id) : undefined,
+        description: entry.summary || undefined,
+        content: entry.content_html || entry.content_text || undefined,
+        authors: authors.length > 0 ? authors : feedAuthors,
+        categories: this.uniqueValues(Array.isArray(entry.tags) ? entry.tags.map(String) : []),
+        enclosures: (Array.isArray(entry.attachments) ? entry.attachments : [])
+          .filter((attachment: any) => typeof attachment?.url === 'string')
+          .map((attachment: any) => ({
+            url: this.resolveUrl(attachment.url, base) || attachment.url,
+            type: attachment.mime_type || undefined,
+            length: typeof attachment.size_in_bytes === 'number' ? attachment.size_in_bytes : undefined
+          }))
+      });
+    }
+
+    return {
+      format: 'json',
+      title: feed.title,
+      link: feed.home_page_url,
+      hubs: (Array.isArray(feed.hubs) ? feed.hubs : [])
+        .filter((hub: any) => typeof hub?.url === 'string' && /websub|pubsubhubbub/i.test(hub.type || 'WebSub'))
+        .map((hub: any) => this.resolveUrl(hub.url, base))
+        .filter(Boolean),
+      selfUrl: this.resolveUrl(feed.feed_url, baseUrl),
+      items
+    };
+  }
+
+  private jsonFeedAuthors(node: any): string[] {
+    const people = Array.isArray(node?.authors) ? node.authors : node?.author ? [node.author] : [];
+    return this.uniqueValues(people.map((person: any) => person?.name || ''));
+  }
+
+  private atomPeople($: CheerioAPI, node: Cheerio<any>): string[] {
+    return this.uniqueValues([
+      ...this.childElements($, node, ['author']).map(author => this.childText($, author, ['name']) || ''),
+      ...this.childTexts($, node, ['dc:creator'])
+    ]);
+  }
+
+  private atomContent($: CheerioAPI, entry: Cheerio<any>): string | undefined {
+    const content = this.childElement($, entry, ['content']);
+    // xhtml content is inline markup wrapped in a <div>, everything else is text or escaped HTML
+    const value = content.attr('type') === 'xhtml' ? content.children().first().html() : content.text();
+    return value?.trim() || undefined;
+  }
+
+  private webSubLinks($: CheerioAPI, node: Cheerio<any>, base?: string): { hubs: string[]; selfUrl?: string } {
+    // RSS channels carry these as atom:link (or atom10:link), Atom feeds as plain link
+    const links: Cheerio<any>[] = [];
+    node.children().each((_, el) => {
+      const name = el.name.toLowerCase();
+      if (name === 'link' || name.endsWith(':link')) {
+        links.push($(el));
+      }
+    });
+
+    const hrefsFor = (rel: string) => links
+      .filter(link => (link.attr('rel') || '').split(/\s+/).includes(rel))
+      .map(link => this.resolveUrl(link.attr('href'), base))
+      .filter((href): href is string => !!href);
+
+    return {
+      hubs: this.uniqueValues(hrefsFor('hub')),
+      selfUrl: hrefsFor('self')[0]
+    };
+  }
+
+  private atomLink($: CheerioAPI, node: Cheerio<any>, rel: string, base?: string): string | undefined {
+    const links = this.childElements($, node, ['link']);
+    // A link without a rel attribute is an alternate link per RFC 4287
+    const match = links.find(link => (link.attr('rel') || 'alternate') === rel);
+    return this.resolveUrl(match?.attr('href'), base);
+  }
+
+  private childElements($: CheerioAPI, node: Cheerio<any>, names: string[]): Cheerio<any>[] {
+    const wanted = names.map(name => name.toLowerCase());
+    const matches: Cheerio<any>[] = [];
+    node.children().each((_, el) => {
+      const name = el.name.toLowerCase();
+      if (wanted.includes(name)) {
+        matches.push($(el));
+      }
+    });
+    return matches;
+  }
+
+  private childElement($: CheerioAPI, node: Cheerio<any>, names: string[]): Cheerio<any> {
+    const [first] = this.childElements($, node, names);
+    return first || $([]);
+  }
+
+  private childTexts($: CheerioAPI, node: Cheerio<any>, names: string[]): string[] {
+    return this.childElements($, node, names)
+      .map(el => el.text().trim())
+      .filter(Boolean);
+  }
+
+  private childText($: CheerioAPI, node: Cheerio<any>, names: string[]): string | undefined {
+    // Respect the caller's preference order rather than document order
+    for (const name of names) {
+      const [value] = this.childTexts($, node, [name]);
+      if (value) return value;
+    }
+    return undefined;
+  }
+
+  private cleanRssAuthor(author: string): string {
+    // RSS 2.0 <author> is an email address, often written as "jane@example.com (Jane Doe)"
+    const named = author.match(/\(([^)]+)\)/);
+    if (named) return named[1].trim();
+    return author.includes('@') ? '' : author;
+  }
+
+  private uniqueValues(values: string[]): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const value of values) {
+      const trimmed = value.trim();
+      if (trimmed && !seen.has(trimmed.toLowerCase())) {
+        seen.add(trimmed.toLowerCase());
+        result.push(trimmed);
+      }
+    }
+    return result;
+  }
+
+  private parseDate(value?: string | null): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private parseLength(value?: string): number | undefined {
+    const length = value ? parseInt(value, 10) : NaN;
+    return isNaN(length) ? undefined : length;
+  }
+
+  private resolveUrl(value?: string | null, base?: string): string | undefined {
+    if (!value) return undefined;
+    try {
+      return new URL(value.trim(), base).toString();
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import { PageDecoder } from "./pageDecoder";
+import { PromptRegistry, type RenderedPrompt } from "./promptRegistry";
+import { TextChunker } from "./textChunker";
+import { generateJson, type LlmResult, type LlmUsage } from "./llm";
+import { type LlmCallContext } from "./llmUsageService";
+import { type FactCheckResult, type Report } from "@shared/schema";
+
+const pageDecoder = new PageDecoder();
+const promptRegistry = new PromptRegistry();
+const textChunker = new TextChunker();
+
+// Articles up to this length are humanized in a single call
+const SINGLE_PASS_MAX_CHARS = 12000;
+const DEFAULT_CHUNK_CHARS = 8000;
+const CHUNK_OVERLAP_CHARS = 600;
+// Very long articles get larger parts rather than more of them, keeping the compose prompt bounded
+const MAX_CHUNKS = 12;
+
+const FACT_CHECK_CHUNK_CHARS = 8000;
+
+export interface HumanizedContent {
+  tldr: string;
+  bullets: string[];
+  humanizedHtml: string;
+  humanizedPlain: string;
+  entities: {
+    orgs: string[];
+    persons: string[];
+    places: string[];
+  };
+  confidence: number;
+}
+
+// Which prompt version and model wrote a report, stored alongside it for audits
+export type ReportProvenance = Pick<Report, 'promptId' | 'promptVersion' | 'model' | 'inputTokens' | 'outputTokens'>;
+
+export interface HumanizedReport extends HumanizedContent {
+  provenance: ReportProvenance;
+}
+
+// A check as the fact-check prompt returns it
+export interface FactCheck {
+  claim: string;
+  verified: boolean;
+  confidence: number;
+}
+
+// Notes taken from one part of a long article before the report is composed
+interface ChunkNotes {
+  summary: string;
+  keyFacts: string[];
+  quotes: string[];
+  entities: HumanizedContent['entities'];
+}
+
+// Text from other outlets covering the same story (see StoryClusterService)
+export interface RelatedCoverage {
+  sourceName: string;
+  url: string;
+  text: string;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return `${text.slice(0, maxLength)} ${text.length > maxLength ? '...[truncated]' : ''}`;
+}
+
+function getChunkChars(): number {
+  const chars = parseInt(process.env.HUMANIZE_CHUNK_CHARS || '', 10);
+  return chars >= 1000 ? chars : DEFAULT_CHUNK_CHARS;
+}
+
+function formatRelatedCoverage(relatedCoverage: RelatedCoverage[]): string {
+  return relatedCoverage.slice(0, 3).map(coverage => `
+Additional Coverage (${coverage.sourceName}, ${coverage.url}):
+${truncate(coverage.text, 3000)}
+`).join('');
+}
+
+// Token counts across several calls; undefined when no call reported any
+function sumUsage(results: LlmResult<unknown>[]): LlmUsage | undefined {
+  const reported = results.filter(result => result.usage);
+  if (reported.length === 0) return undefined;
+  return {
+    inputTokens: reported.reduce((sum, result) => sum + result.usage!.inputTokens, 0),
+    outputTokens: reported.reduce((sum, result) => sum + result.usage!.outputTokens, 0)
+  };
+}
+
+function toProvenance(prompt: RenderedPrompt, result: LlmResult<unknown>, usage = result.usage): ReportProvenance {
+  return {
+    promptId: prompt.templateId,
+    promptVersion: prompt.version,
+    model: `${result.provider}/${result.model}`,
+    inputTokens: usage?.inputTokens ?? null,
+    outputTokens: usage?.outputTokens ?? null
+  };
+}
+
+function mergeEntities(lists: HumanizedContent['entities'][]): HumanizedContent['entities'] {
+  const unique = (names: string[]) => {
+    const seen = new Set<string>();
+    return names.filter(name => {
+      const key = name.trim().toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  };
+  return {
+    orgs: unique(lists.reduce<string[]>((all, entities) => all.concat(entities?.orgs || []), [])),
+    persons: unique(lists.reduce<string[]>((all, entities) => all.concat(entities?.persons || []), [])),
+    places: unique(lists.reduce<string[]>((all, entities) => all.concat(entities?.places || []), []))
+  };
+}
+
+export async function humanizeArticle(
+  title: string,
+  rawText: string,
+  sourceUrl: string,
+  relatedCoverage: RelatedCoverage[] = [],
+  context?: LlmCallContext
+): Promise<HumanizedReport> {
+  try {
+    if (rawText.length > Math.max(SINGLE_PASS_MAX_CHARS, getChunkChars())) {
+      return await humanizeInChunks(title, rawText, sourceUrl, relatedCoverage, context);
+    }
+
+    const prompt = await promptRegistry.render('humanize', {
+      title,
+      sourceUrl,
+      articleText: rawText,
+      relatedCoverage: formatRelatedCoverage(relatedCoverage)
+    });
+
+    const result = await generateJson<HumanizedContent>('humanize', prompt, context);
+    const content = result.data;
+
+    // Validate required fields
+    if (!content?.tldr || !content.bullets || !content.humanizedHtml) {
+      throw new Error("Invalid response structure from LLM provider");
+    }
+
+    return { ...content, provenance: toProvenance(prompt, result) };
+  } catch (error) {
+    console.error('Error humanizing article:', error);
+    throw new Error(`Failed to humanize article: ${error}`);
+  }
+}
+
+/**
+ * Map-reduce humanization for articles too long for one prompt: notes are
+ * taken from each overlapping part in turn, then the report is composed from
+ * all of them. Provenance names the compose prompt; tokens cover every call.
+ */
+async function humanizeInChunks(
+  title: string,
+  rawText: string,
+  sourceUrl: string,
+  relatedCoverage: RelatedCoverage[],
+  context?: LlmCallContext
+): Promise<HumanizedReport> {
+  const chunkChars = Math.max(getChunkChars(), Math.ceil(rawText.length / MAX_CHUNKS) + CHUNK_OVERLAP_CHARS);
+  const chunks = textChunker.chunk(rawText, { maxChars: chunkChars, overlapChars: CHUNK_OVERLAP_CHARS });
+  console.log(`Humanizing "${title}" in ${chunks.length} parts (${rawText.length} characters)`);
+
+  const results: LlmResult<unknown>[] = [];
+  const notes: ChunkNotes[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const prompt = await promptRegistry.render('humanize-chunk', {
+      title,
+      part: String(i + 1),
+      partCount: String(chunks.length),
+      chunkText: chunks[i]
+    });
+    const result = await generateJson<ChunkNotes>('humanize-chunk', prompt, context);
+    if (!result.data?.keyFacts) {
+      throw new Error(`Invalid notes for part ${i + 1} from LLM provider`);
+    }
+    results.push(result);
+    notes.push(result.data);
+  }
+
+  const chunkNotes = notes.map((note, i) => `
+Part ${i + 1}:
+Summary: ${note.summary}
+Facts:
+${note.keyFacts.map(fact => `- ${fact}`).join('\n')}${(note.quotes || []).length > 0 ? `
+Quotes:
+${note.quotes.map(quote => `- ${quote}`).join('\n')}` : ''}
+`).join('');
+
+  const prompt = await promptRegistry.render('humanize-compose', {
+    title,
+    sourceUrl,
+    partCount: String(chunks.length),
+    chunkNotes,
+    relatedCoverage: formatRelatedCoverage(relatedCoverage)
+  });
+  const result = await generateJson<HumanizedContent>('humanize-compose', prompt, context);
+  const content = result.data;
+  results.push(result);
+
+  if (!content?.tldr || !content.bullets || !content.humanizedHtml) {
+    throw new Error("Invalid response structure from LLM provider");
+  }
+
+  return {
+    ...content,
+    // Names mentioned in only one part can drop out of the composed text; keep them for tagging
+    entities: mergeEntities([content.entities].concat(notes.map(note => note.entities))),
+    provenance: toProvenance(prompt, result, sumUsage(results))
+  };
+}
+
+/**
+ * Fallback for articles whose page is behind a paywall or consent wall: a
+ * short summary of the feed description alone, labelled as such.
+ */
+export async function summarizeFeedDescription(
+  title: string,
+  description: string,
+  sourceUrl: string,
+  wallType: 'paywall' | 'consent',
+  context?: LlmCallContext
+): Promise<HumanizedReport> {
+  try {
+    const prompt = await promptRegistry.render('summarize-teaser', {
+      title,
+      sourceUrl,
+      teaser: pageDecoder.toPlainText(description).slice(0, 2000)
+    });
+
+    const result = await generateJson<HumanizedContent>('summarize-teaser', prompt, context);
+    const content = result.data;
+    if (!content?.tldr || !content.humanizedHtml) {
+      throw new Error("Invalid response structure from LLM provider");
+    }
+
+    const label = wallType === 'paywall'
+      ? 'Summary of the publisher\'s teaser only. The full article is behind a paywall.'
+      : 'Summary of the publisher\'s teaser only. The full article could not be retrieved.';
+
+    return {
+      ...content,
+      bullets: content.bullets || [],
+      humanizedHtml: `<p><em>${label}</em></p>\n${content.humanizedHtml}`,
+      humanizedPlain: `${label}\n\n${content.humanizedPlain || ''}`,
+      provenance: toProvenance(prompt, result)
+    };
+  } catch (error) {
+    console.error('Error summarizing feed description:', error);
+    throw new Error(`Failed to summarize feed description: ${error}`);
+  }
+}
+
+/**
+ * LLM fact-check of a report against its source. Throws when no part of the
+ * article could be checked, so a failed check is not mistaken for a clean one.
+ */
+export async function performFactCheck(
+  originalText: string,
+  humanizedText: string,
+  context?: LlmCallContext
+): Promise<FactCheckResult[]> {
+  try {
+    const chunks = textChunker.chunk(originalText, {
+      maxChars: FACT_CHECK_CHUNK_CHARS,
+      overlapChars: CHUNK_OVERLAP_CHARS
+    });
+
+    const perChunk: FactCheck[][] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const prompt = await promptRegistry.render('fact-check', {
+        originalText: chunks[i],
+        humanizedText: humanizedText.slice(0, 8000),
+        excerpt: chunks.length > 1 ? `part ${i + 1} of ${chunks.length}` : ''
+      });
+
+      try {
+        const result = await generateJson<FactCheck[]>('fact-check', prompt, context);
+        perChunk.push(Array.isArray(result.data) ? result.data : []);
+      } catch (error) {
+        // The other parts still produce useful checks
+        console.error(`Error fact-checking part ${i + 1} of ${chunks.length}:`, error);
+      }
+    }
+
+    if (perChunk.length === 0) {
+      throw new Error(`none of the ${chunks.length} parts could be checked`);
+    }
+
+    return mergeFactChecks(perChunk).map(check => ({
+      claim: check.claim,
+      verified: !!check.verified,
+      confidence: Number(check.confidence) || 0,
+      method: 'llm' as const
+    }));
+  } catch (error) {
+    console.error('Error performing fact check:', error);
+    throw new Error(`Failed to fact-check article: ${error}`);
+  }
+}
+
+/**
+ * Combines checks from several parts of an article. The same claim checked
+ * against different parts is listed once: verified if any part supports it,
+ * with the highest confidence among the parts that agree.
+ */
+function mergeFactChecks(perChunk: FactCheck[][]): FactCheck[] {
+  const merged = new Map<string, FactCheck>();
+  perChunk.forEach(checks => checks.forEach(check => {
+    if (!check?.claim) return;
+    const key = check.claim.toLowerCase().replace(/\s+/g, ' ').replace(/[.\s]+$/, '').trim();
+    const existing = merged.get(key);
+    if (!existing ||
+        (check.verified && !existing.verified) ||
+        (check.verified === existing.verified && check.confidence > existing.confidence)) {
+      merged.set(key, check);
+    }
+  }));
+  return Array.from(merged.values());
+}
+
+export async function calculateSimilarity(
+  originalText: string,
+  humanizedText: string,
+  context?: LlmCallContext
+): Promise<number> {
+  try {
+    const prompt = await promptRegistry.render('similarity', {
+      originalText: originalText.slice(0, 6000),
+      humanizedText: humanizedText.slice(0, 6000)
+    });
+
+    const result = await generateJson<{ similarity?: number }>('similarity', prompt, context);
+
+    return Math.max(0, Math.min(100, result.data?.similarity || 50));
+  } catch (error) {
+    console.error('Error calculating similarity:', error);
+    return 50; // Default similarity score
+  }
+}
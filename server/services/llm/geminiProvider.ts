@@ -0,0 +1,51 @@
+import { GoogleGenAI } from "@google/genai";
+import { type LlmJsonRequest, type LlmJsonResponse, type LlmProvider, type LlmTask } from "./types";
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini';
+  private client?: GoogleGenAI;
+
+  defaultModel(task: LlmTask): string {
+    // Per-part notes for long articles are simple extraction; the writing steps get the stronger model
+    return task === 'humanize' || task === 'humanize-compose' ? 'gemini-2.5-pro' : 'gemini-2.5-flash';
+  }
+
+  async generateJson(request: LlmJsonRequest): Promise<LlmJsonResponse> {
+    const response = await this.getClient().models.generateContent({
+      model: request.model,
+      config: {
+        systemInstruction: request.systemPrompt,
+        responseMimeType: "application/json",
+        responseSchema: request.schema
+      },
+      contents: request.userPrompt,
+    });
+
+    const rawJson = response.text;
+    if (!rawJson) {
+      throw new Error("Empty response from Gemini API");
+    }
+
+    const usage = response.usageMetadata;
+    return {
+      data: JSON.parse(rawJson),
+      // Thinking tokens are billed as output
+      usage: usage ? {
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+      } : undefined
+    };
+  }
+
+  // Created on first use so the app starts (and other providers work) without a Gemini key
+  private getClient(): GoogleGenAI {
+    if (!this.client) {
+      const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY is not configured');
+      }
+      this.client = new GoogleGenAI({ apiKey });
+    }
+    return this.client;
+  }
+}
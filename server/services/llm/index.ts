@@ -0,0 +1,95 @@
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { StubProvider } from "./stubProvider";
+import { LlmUsageService, type LlmCallContext } from "../llmUsageService";
+import { type LlmJsonResponse, type LlmProvider, type LlmTask, type LlmUsage } from "./types";
+
+export type { LlmJsonRequest, LlmJsonResponse, LlmProvider, LlmTask, LlmUsage } from "./types";
+
+export interface LlmResult<T> {
+  data: T;
+  provider: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+const usageService = new LlmUsageService();
+
+const providers: LlmProvider[] = [
+  new GeminiProvider(),
+  new OpenAiCompatibleProvider(),
+  new StubProvider()
+];
+
+// humanize -> HUMANIZE, summarize-teaser -> SUMMARIZE_TEASER
+function envKey(task: LlmTask): string {
+  return task.toUpperCase().replace(/-/g, '_');
+}
+
+/**
+ * Provider and model for a task. LLM_PROVIDER_<TASK> and LLM_MODEL_<TASK>
+ * override the LLM_PROVIDER default (gemini) and the provider's own model.
+ */
+export function getLlmProvider(task: LlmTask): { provider: LlmProvider; model: string } {
+  const name = (process.env[`LLM_PROVIDER_${envKey(task)}`] || process.env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+  const provider = providers.find(candidate => candidate.name === name);
+
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${name}" for ${task}; expected one of ${providers.map(p => p.name).join(', ')}`);
+  }
+
+  return {
+    provider,
+    model: process.env[`LLM_MODEL_${envKey(task)}`] || provider.defaultModel(task)
+  };
+}
+
+/**
+ * Runs a prompt through the task's provider. A model named by the prompt
+ * (see PromptRegistry) takes precedence over the configured one. Every call,
+ * failed ones included, is recorded for usage accounting.
+ */
+export async function generateJson<T>(
+  task: LlmTask,
+  prompt: {
+    systemPrompt: string;
+    userPrompt: string;
+    schema: Record<string, any>;
+    model?: string | null;
+    templateId?: string;
+  },
+  context?: LlmCallContext
+): Promise<LlmResult<T>> {
+  const { provider, model: configuredModel } = getLlmProvider(task);
+  const model = prompt.model || configuredModel;
+  const call = { task, provider: provider.name, model, promptId: prompt.templateId, context };
+  const startedAt = Date.now();
+
+  let response: LlmJsonResponse;
+  try {
+    response = await provider.generateJson({
+      task,
+      model,
+      systemPrompt: prompt.systemPrompt,
+      userPrompt: prompt.userPrompt,
+      schema: prompt.schema
+    });
+  } catch (error) {
+    await usageService.record({
+      ...call,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+
+  await usageService.record({
+    ...call,
+    inputTokens: response.usage?.inputTokens || 0,
+    outputTokens: response.usage?.outputTokens || 0,
+    latencyMs: Date.now() - startedAt
+  });
+  return { data: response.data as T, provider: provider.name, model, usage: response.usage };
+}
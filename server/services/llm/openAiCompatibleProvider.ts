@@ -0,0 +1,72 @@
+import { type LlmJsonRequest, type LlmJsonResponse, type LlmProvider } from "./types";
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+// Local models on modest hardware can take minutes for a long article
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local Ollama / vLLM / llama.cpp server via OPENAI_BASE_URL.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  defaultModel(): string {
+    return process.env.OPENAI_MODEL || DEFAULT_MODEL;
+  }
+
+  async generateJson(request: LlmJsonRequest): Promise<LlmJsonResponse> {
+    const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const timeoutMs = parseInt(process.env.OPENAI_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
+    // JSON mode only produces objects, so array responses travel wrapped in {"items": [...]}
+    const wrapsArray = request.schema.type === 'array';
+    const schema = wrapsArray
+      ? { type: 'object', properties: { items: request.schema }, required: ['items'] }
+      : request.schema;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.OPENAI_API_KEY) {
+      headers['Authorization'] = `Bearer ${process.env.OPENAI_API_KEY}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: `${request.systemPrompt}\n\nRespond with a single JSON object that follows this JSON schema:\n${JSON.stringify(schema)}`
+          },
+          { role: 'user', content: request.userPrompt }
+        ]
+      }),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 300);
+      throw new Error(`OpenAI-compatible API returned HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+
+    const body = await response.json();
+    const content: string | undefined = body?.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('Empty response from OpenAI-compatible API');
+    }
+
+    // Some local models wrap JSON in a Markdown code fence despite JSON mode
+    const parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, ''));
+    return {
+      data: wrapsArray && parsed && !Array.isArray(parsed) ? parsed.items : parsed,
+      usage: body.usage ? {
+        inputTokens: body.usage.prompt_tokens || 0,
+        outputTokens: body.usage.completion_tokens || 0
+      } : undefined
+    };
+  }
+}
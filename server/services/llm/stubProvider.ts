@@ -0,0 +1,52 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { type LlmJsonRequest, type LlmJsonResponse, type LlmProvider } from "./types";
+
+interface StubFixture {
+  // First case whose text appears in the user prompt wins
+  cases?: { contains: string; response: unknown }[];
+  default?: unknown;
+}
+
+/**
+ * Offline provider for tests and local development. Answers come from
+ * <task>.json in LLM_STUB_FIXTURES (default server/fixtures/llm), so the same
+ * prompt always gets the same response and no network is involved.
+ */
+export class StubProvider implements LlmProvider {
+  readonly name = 'stub';
+
+  defaultModel(): string {
+    return 'stub';
+  }
+
+  async generateJson(request: LlmJsonRequest): Promise<LlmJsonResponse> {
+    const fixture = this.loadFixture(request.task);
+    const match = (fixture.cases || []).find(candidate => request.userPrompt.includes(candidate.contains));
+    const response = match ? match.response : fixture.default;
+
+    if (response === undefined) {
+      throw new Error(`Stub fixture for ${request.task} has no matching case and no default`);
+    }
+    const text = JSON.stringify(response);
+    return {
+      // Hand out a copy so callers can mutate the result freely
+      data: JSON.parse(text),
+      // Rough four-characters-per-token estimate, stable across runs
+      usage: {
+        inputTokens: Math.ceil((request.systemPrompt.length + request.userPrompt.length) / 4),
+        outputTokens: Math.ceil(text.length / 4)
+      }
+    };
+  }
+
+  private loadFixture(task: string): StubFixture {
+    const dir = path.resolve(process.env.LLM_STUB_FIXTURES || path.join(process.cwd(), 'server/fixtures/llm'));
+    const file = path.join(dir, `${task}.json`);
+    if (!existsSync(file)) {
+      throw new Error(`No stub fixture for ${task} (looked for ${file})`);
+    }
+    // Read on every call so tests can swap fixtures between runs
+    return JSON.parse(readFileSync(file, 'utf8'));
+  }
+}
@@ -0,0 +1,35 @@
+// Each pipeline step that calls a model; providers and models are configured per task
+export type LlmTask =
+  | 'humanize'
+  | 'humanize-chunk'
+  | 'humanize-compose'
+  | 'summarize-teaser'
+  | 'fact-check'
+  | 'similarity';
+
+export interface LlmJsonRequest {
+  task: LlmTask;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  // JSON schema the response must follow
+  schema: Record<string, any>;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmJsonResponse {
+  data: unknown;
+  // Left out when the server does not report token counts
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  defaultModel(task: LlmTask): string;
+  // Resolves to the parsed JSON response; throws when the model returns nothing usable
+  generateJson(request: LlmJsonRequest): Promise<LlmJsonResponse>;
+}
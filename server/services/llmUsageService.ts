@@ -0,0 +1,193 @@
+import { storage } from "../storage";
+import { type ApiUsage, type LlmBudgetStatus, type LlmUsageTotals } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// List prices; LLM_PRICING overrides or extends them. Models not listed (local ones) cost nothing.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gpt-4o': { input: 2.50, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 }
+};
+
+const USAGE_CHART_DAYS = 30;
+const DEFAULT_RETENTION_DAYS = 90;
+
+// What an LLM call was made for, so usage can be broken down by article and source
+export interface LlmCallContext {
+  articleId?: string | null;
+  sourceId?: string | null;
+}
+
+export interface LlmCall {
+  task: string;
+  provider: string;
+  model: string;
+  promptId?: string | null;
+  context?: LlmCallContext;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export class LlmUsageService {
+  /**
+   * Estimated cost of a call in USD. Versioned model names (gemini-2.5-flash-001)
+   * use the price of the longest listed name they start with.
+   */
+  estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const prices = this.getPrices();
+    const name = model.toLowerCase().replace(/^models\//, '');
+    const match = Object.keys(prices)
+      .filter(listed => name === listed || name.startsWith(`${listed}-`))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (!match) return 0;
+    const price = prices[match];
+    return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+  }
+
+  // Failing to record usage must never fail the call it describes
+  async record(call: LlmCall): Promise<void> {
+    try {
+      await storage.createLlmUsageRecord({
+        day: this.dayOf(new Date()),
+        task: call.task,
+        provider: call.provider,
+        model: call.model,
+        promptId: call.promptId ?? null,
+        articleId: call.context?.articleId ?? null,
+        sourceId: call.context?.sourceId ?? null,
+        inputTokens: call.inputTokens,
+        outputTokens: call.outputTokens,
+        latencyMs: Math.round(call.latencyMs),
+        costUsd: this.estimateCost(call.model, call.inputTokens, call.outputTokens),
+        success: !call.error,
+        error: call.error ? call.error.slice(0, 500) : null
+      });
+    } catch (error) {
+      console.error('Error recording LLM usage:', error);
+    }
+  }
+
+  getDailyBudgets(): { costUsd: number | null; tokens: number | null } {
+    const costUsd = parseFloat(process.env.LLM_DAILY_BUDGET_USD || '');
+    const tokens = parseInt(process.env.LLM_DAILY_TOKEN_BUDGET || '', 10);
+    return {
+      costUsd: costUsd > 0 ? costUsd : null,
+      tokens: tokens > 0 ? tokens : null
+    };
+  }
+
+  async getBudgetStatus(now = new Date()): Promise<LlmBudgetStatus> {
+    const day = this.dayOf(now);
+    const totals = await storage.getLlmUsageTotals(day, 'day');
+    return this.budgetStatus(day, totals.find(entry => entry.key === day) || this.emptyTotals(day), now);
+  }
+
+  /** Usage for the admin dashboard: today, the last 30 days, and breakdowns over that period. */
+  async getApiUsage(now = new Date()): Promise<ApiUsage> {
+    const today = this.dayOf(now);
+    const since = this.dayOf(new Date(now.getTime() - (USAGE_CHART_DAYS - 1) * DAY_MS));
+
+    const [byDay, byTask, byModel, bySource, sources, newsApiRequests] = await Promise.all([
+      storage.getLlmUsageTotals(since, 'day'),
+      storage.getLlmUsageTotals(since, 'task'),
+      storage.getLlmUsageTotals(since, 'model'),
+      storage.getLlmUsageTotals(since, 'sourceId'),
+      storage.getSources(),
+      storage.getApiUsageCount('newsapi', today)
+    ]);
+
+    const daily: LlmUsageTotals[] = [];
+    for (let i = USAGE_CHART_DAYS - 1; i >= 0; i--) {
+      const day = this.dayOf(new Date(now.getTime() - i * DAY_MS));
+      daily.push(byDay.find(entry => entry.key === day) || this.emptyTotals(day));
+    }
+    const todayTotals = daily[daily.length - 1];
+
+    const byCost = (a: LlmUsageTotals, b: LlmUsageTotals) => b.costUsd - a.costUsd || b.calls - a.calls;
+    const sourceNames = new Map(sources.map(source => [source.id, source.name] as [string, string]));
+
+    return {
+      llm: {
+        today: todayTotals,
+        budget: this.budgetStatus(today, todayTotals, now),
+        daily,
+        byTask: byTask.sort(byCost),
+        byModel: byModel.sort(byCost),
+        bySource: bySource
+          .filter(entry => entry.key)
+          .sort(byCost)
+          .map(entry => ({ ...entry, sourceName: sourceNames.get(entry.key!) }))
+      },
+      newsApiRequests,
+      newsApiLimit: parseInt(process.env.NEWS_API_DAILY_LIMIT || '1000', 10)
+    };
+  }
+
+  getRetentionDays(): number {
+    const days = parseInt(process.env.LLM_USAGE_RETENTION_DAYS || '', 10);
+    // Never keep less than the dashboard chart shows
+    return days >= USAGE_CHART_DAYS ? days : DEFAULT_RETENTION_DAYS;
+  }
+
+  async pruneOld(): Promise<number> {
+    return storage.deleteLlmUsageRecordsOlderThan(this.getRetentionDays());
+  }
+
+  private budgetStatus(day: string, totals: LlmUsageTotals, now: Date): LlmBudgetStatus {
+    const budgets = this.getDailyBudgets();
+    const tokens = totals.inputTokens + totals.outputTokens;
+    const exceeded = (budgets.costUsd !== null && totals.costUsd >= budgets.costUsd) ||
+      (budgets.tokens !== null && tokens >= budgets.tokens);
+
+    return {
+      day,
+      costUsd: totals.costUsd,
+      tokens,
+      dailyCostBudgetUsd: budgets.costUsd,
+      dailyTokenBudget: budgets.tokens,
+      exceeded,
+      // Budgets are per UTC day
+      resumesAt: exceeded ? `${this.dayOf(new Date(now.getTime() + DAY_MS))}T00:00:00.000Z` : undefined
+    };
+  }
+
+  private getPrices(): Record<string, ModelPrice> {
+    if (!process.env.LLM_PRICING) return DEFAULT_PRICES;
+    try {
+      const overrides = JSON.parse(process.env.LLM_PRICING);
+      const prices: Record<string, ModelPrice> = { ...DEFAULT_PRICES };
+      Object.keys(overrides).forEach(model => {
+        prices[model.toLowerCase()] = {
+          input: Number(overrides[model]?.input) || 0,
+          output: Number(overrides[model]?.output) || 0
+        };
+      });
+      return prices;
+    } catch (error) {
+      console.warn('LLM_PRICING is not valid JSON, using list prices');
+      return DEFAULT_PRICES;
+    }
+  }
+
+  private emptyTotals(key: string): LlmUsageTotals {
+    return { key, calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, avgLatencyMs: 0 };
+  }
+
+  private dayOf(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
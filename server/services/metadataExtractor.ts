@@ -0,0 +1,186 @@
+import * as cheerio from "cheerio";
+import { type CheerioAPI } from "cheerio";
+
+const ARTICLE_TYPES = ['NewsArticle', 'Article', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'BlogPosting', 'LiveBlogPosting', 'WebPage'];
+const MAX_TAGS = 20;
+
+export interface PageMetadata {
+  authors: string[];
+  publishedAt?: Date;
+  modifiedAt?: Date;
+  language?: string;
+  tags: string[];
+  imageUrl?: string;
+  section?: string;
+  publisher?: string;
+  description?: string;
+}
+
+export class MetadataExtractor {
+  /**
+   * Reads structured metadata from an article page. JSON-LD wins over Open
+   * Graph, which wins over Twitter Cards and plain <meta> tags.
+   */
+  extract(html: string, pageUrl: string): PageMetadata {
+    const $ = cheerio.load(html);
+    const ld = this.findJsonLdArticle($);
+
+    const meta = (selector: string) => this.clean($(selector).first().attr('content'));
+    const metaAll = (selector: string) => $(selector).toArray().map(el => this.clean($(el).attr('content'))).filter(Boolean) as string[];
+
+    const authors = this.firstNonEmpty(
+      this.jsonLdNames(ld?.author),
+      metaAll('meta[property="article:author"]').filter(author => !/^https?:\/\//i.test(author)),
+      metaAll('meta[name="author"], meta[name="byl"], meta[name="sailthru.author"]').map(author => author.replace(/^by\s+/i, '')),
+      metaAll('meta[name="twitter:creator"]').filter(author => !author.startsWith('@'))
+    );
+
+    const tags = this.firstNonEmpty(
+      this.splitList(ld?.keywords),
+      metaAll('meta[property="article:tag"]'),
+      this.splitList(meta('meta[name="news_keywords"]')),
+      this.splitList(meta('meta[name="keywords"]'))
+    );
+
+    const image = ld?.image || ld?.thumbnailUrl;
+    const imageUrl = this.resolveUrl(
+      this.jsonLdUrl(image) ||
+      meta('meta[property="og:image:secure_url"]') ||
+      meta('meta[property="og:image"]') ||
+      meta('meta[name="twitter:image"], meta[name="twitter:image:src"], meta[property="twitter:image"]') ||
+      $('link[rel="image_src"]').attr('href'),
+      pageUrl
+    );
+
+    return {
+      authors: this.unique(authors),
+      publishedAt: this.parseDate(
+        this.asString(ld?.datePublished) ||
+        meta('meta[property="article:published_time"]') ||
+        meta('meta[name="pubdate"], meta[name="publish-date"], meta[name="date"], meta[name="dc.date"], meta[name="DC.date.issued"]') ||
+        this.clean($('[itemprop="datePublished"]').first().attr('content') || $('time[datetime]').first().attr('datetime'))
+      ),
+      modifiedAt: this.parseDate(
+        this.asString(ld?.dateModified) ||
+        meta('meta[property="article:modified_time"], meta[property="og:updated_time"]')
+      ),
+      language: this.normalizeLanguage(
+        this.asString(ld?.inLanguage) ||
+        $('html').attr('lang') ||
+        meta('meta[http-equiv="content-language"]') ||
+        meta('meta[property="og:locale"]')
+      ),
+      tags: this.unique(tags).slice(0, MAX_TAGS),
+      imageUrl,
+      section: this.clean(this.asString(ld?.articleSection) || meta('meta[property="article:section"]')),
+      publisher: this.clean(this.jsonLdNames(ld?.publisher)[0] || meta('meta[property="og:site_name"]')),
+      description: this.clean(
+        this.asString(ld?.description) ||
+        meta('meta[property="og:description"]') ||
+        meta('meta[name="twitter:description"]') ||
+        meta('meta[name="description"]')
+      )
+    };
+  }
+
+  private findJsonLdArticle($: CheerioAPI): Record<string, any> | undefined {
+    const items: Record<string, any>[] = [];
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+      try {
+        this.flattenJsonLd(JSON.parse($(el).text()), items);
+      } catch (error) {
+        // Publishers regularly ship broken JSON-LD; fall back to meta tags
+      }
+    });
+
+    // Prefer the most specific article type when a page declares several
+    for (const type of ARTICLE_TYPES) {
+      const match = items.find(item => this.asArray(item['@type']).includes(type));
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  private flattenJsonLd(value: any, items: Record<string, any>[]): void {
+    if (Array.isArray(value)) {
+      value.forEach(entry => this.flattenJsonLd(entry, items));
+    } else if (value && typeof value === 'object') {
+      items.push(value);
+      if (value['@graph']) this.flattenJsonLd(value['@graph'], items);
+    }
+  }
+
+  // author/publisher may be a string, a Person/Organization or an array of either
+  private jsonLdNames(value: any): string[] {
+    return this.asArray(value)
+      .map(entry => typeof entry === 'string' ? entry : entry?.name)
+      .map(name => this.clean(this.asString(name)))
+      .filter(Boolean) as string[];
+  }
+
+  // image may be a URL, an ImageObject or an array of either
+  private jsonLdUrl(value: any): string | undefined {
+    const first = this.asArray(value)[0];
+    if (!first) return undefined;
+    return typeof first === 'string' ? first : this.asString(first.url || first.contentUrl);
+  }
+
+  private splitList(value: any): string[] {
+    return this.asArray(value)
+      .flatMap(entry => typeof entry === 'string' ? entry.split(',') : [])
+      .map(tag => this.clean(tag))
+      .filter(Boolean) as string[];
+  }
+
+  private resolveUrl(value: string | undefined, base: string): string | undefined {
+    if (!value) return undefined;
+    try {
+      const url = new URL(value.trim(), base);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private parseDate(value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  // "en-US", "en_GB" and "EN" all become "en"
+  private normalizeLanguage(value: string | undefined): string | undefined {
+    const match = (value || '').trim().match(/^([a-z]{2,3})(?:[-_]|$)/i);
+    return match ? match[1].toLowerCase() : undefined;
+  }
+
+  private firstNonEmpty(...lists: string[][]): string[] {
+    return lists.find(list => list.length > 0) || [];
+  }
+
+  private unique(values: string[]): string[] {
+    const seen = new Set<string>();
+    return values.filter(value => {
+      const key = value.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private asArray(value: any): any[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private asString(value: any): string | undefined {
+    if (Array.isArray(value)) return this.asString(value[0]);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  private clean(value: string | undefined): string | undefined {
+    const text = (value || '').replace(/\s+/g, ' ').trim();
+    return text || undefined;
+  }
+}
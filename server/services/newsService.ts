@@ -1,116 +1,129 @@
 import { storage } from "../storage";
-import { type Source, type InsertArticle } from "@shared/schema";
-
-interface RssItem {
-  title: string;
-  url: string;
-  publishedAt: Date;
-  description?: string;
-  authors?: string[];
-  category?: string;
+import { type Source, type InsertArticle, type SourceFetchStats } from "@shared/schema";
+import { type RssItem } from "./feedParser";
+import { getSourceConnector, type ConnectorFetchResult } from "./connectors";
+import { DEFAULT_ARTICLE_BUDGET } from "./connectors/types";
+import { WebSubService } from "./webSubService";
+import { SourceHealthService } from "./sourceHealthService";
+import { UrlCanonicalizer } from "./urlCanonicalizer";
+import { PageDecoder } from "./pageDecoder";
+
+export interface SourceFetch {
+  items: RssItem[];
+  articleBudget: number;
 }
 
 export class NewsService {
-  async fetchFromRss(source: Source): Promise<RssItem[]> {
+  private webSubService = new WebSubService();
+  private sourceHealthService = new SourceHealthService();
+  private urlCanonicalizer = new UrlCanonicalizer();
+  private pageDecoder = new PageDecoder();
+
+  async fetchFromSource(source: Source): Promise<SourceFetch> {
     try {
-      if (!source.rssUrl) {
-        throw new Error(`No RSS URL for source ${source.name}`);
-      }
+      const connector = getSourceConnector(source);
 
-      const response = await fetch(source.rssUrl, {
-        headers: {
-          'User-Agent': 'NewsAI Bot 1.0 (contact@newsai.com)',
-          'Accept': 'application/rss+xml, application/xml, text/xml'
-        }
-      });
+      const startedAt = Date.now();
+      let result: ConnectorFetchResult;
+      try {
+        result = await connector.fetch(source);
+      } catch (error) {
+        await this.sourceHealthService.recordFailure(source, error, Date.now() - startedAt);
+        throw error;
+      }
+      await this.recordFetch(source, result, Date.now() - startedAt);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (result.webSub) {
+        await this.webSubService.ensureSubscription(source, result.webSub).catch(error => {
+          console.error(`Error subscribing to WebSub hub for ${source.name}:`, error);
+        });
       }
 
-      const xmlText = await response.text();
-      const items = this.parseRssFeed(xmlText, source);
-      
-      // Update last fetch time
-      await storage.updateSourceLastFetch(source.id);
-      
-      return items;
+      // The budget is applied when saving, so items already stored do not use it up
+      return {
+        items: result.items.map(item => ({ ...item, category: source.category })),
+        articleBudget: result.articleBudget ?? DEFAULT_ARTICLE_BUDGET
+      };
     } catch (error) {
-      console.error(`Error fetching RSS from ${source.name}:`, error);
+      console.error(`Error fetching from ${source.name}:`, error);
       throw error;
     }
   }
 
-  private parseRssFeed(xmlText: string, source: Source): RssItem[] {
-    try {
-      // Simple XML parsing - in production, use a proper XML parser
-      const items: RssItem[] = [];
-      
-      // Extract items using regex (basic approach)
-      const itemRegex = /<item>(.*?)<\/item>/gs;
-      const titleRegex = /<title><!\[CDATA\[(.*?)\]\]><\/title>|<title>(.*?)<\/title>/s;
-      const linkRegex = /<link>(.*?)<\/link>/s;
-      const pubDateRegex = /<pubDate>(.*?)<\/pubDate>/s;
-      const descriptionRegex = /<description><!\[CDATA\[(.*?)\]\]><\/description>|<description>(.*?)<\/description>/s;
-
-      let match;
-      while ((match = itemRegex.exec(xmlText)) !== null) {
-        const itemXml = match[1];
-        
-        const titleMatch = titleRegex.exec(itemXml);
-        const linkMatch = linkRegex.exec(itemXml);
-        const pubDateMatch = pubDateRegex.exec(itemXml);
-        const descMatch = descriptionRegex.exec(itemXml);
-
-        if (titleMatch && linkMatch) {
-          const title = (titleMatch[1] || titleMatch[2] || '').trim();
-          const url = linkMatch[1].trim();
-          const publishedAt = pubDateMatch ? new Date(pubDateMatch[1]) : new Date();
-          const description = descMatch ? (descMatch[1] || descMatch[2] || '').trim() : undefined;
-
-          items.push({
-            title,
-            url,
-            publishedAt,
-            description,
-            category: source.category
-          });
-        }
-      }
-
-      return items.slice(0, 20); // Limit to 20 items per source
-    } catch (error) {
-      console.error('Error parsing RSS feed:', error);
-      return [];
-    }
+  private async recordFetch(source: Source, result: ConnectorFetchResult, durationMs: number): Promise<void> {
+    const previous = source.fetchStats;
+    const fetchStats: SourceFetchStats = {
+      totalFetches: (previous?.totalFetches || 0) + 1,
+      notModifiedCount: (previous?.notModifiedCount || 0) + (result.status === 304 ? 1 : 0),
+      bytesDownloaded: (previous?.bytesDownloaded || 0) + result.bytes,
+      lastStatus: result.status,
+      lastItemCount: result.items.length,
+      lastDurationMs: durationMs
+    };
+
+    await storage.updateSource(source.id, {
+      ...result.sourceUpdates,
+      lastFetchedAt: new Date(),
+      fetchStats,
+      health: this.sourceHealthService.afterSuccess(source, durationMs, result.items.length)
+    });
   }
 
-  async saveArticles(items: RssItem[], sourceId: string): Promise<number> {
+  async saveArticles(items: RssItem[], sourceId: string, limit = Infinity): Promise<number> {
     let savedCount = 0;
 
     for (const item of items) {
+      if (savedCount >= limit) {
+        console.log(`Article budget of ${limit} reached for source ${sourceId}; the rest wait for the next fetch`);
+        break;
+      }
+
       try {
-        // Check if article already exists
-        const existing = await storage.getArticleByUrl(item.url);
-        if (existing) {
+        // Cheap check on the normalized URL before resolving redirects over the network
+        const normalizedUrl = this.urlCanonicalizer.normalize(item.url);
+        if (await storage.getArticleByUrl(item.url) || await storage.getArticleByUrl(normalizedUrl)) {
+          continue;
+        }
+
+        const resolved = await this.urlCanonicalizer.resolve(normalizedUrl);
+        const canonicalMatch = resolved.url !== normalizedUrl ? await storage.getArticleByUrl(resolved.url) : undefined;
+        if (canonicalMatch) {
+          // Remember this alias so the next fetch skips the redirect lookup
+          await storage.updateArticle(canonicalMatch.id, {
+            redirects: Array.from(new Set([...(canonicalMatch.redirects || []), item.url]))
+          });
           continue;
         }
 
+        const redirects = Array.from(new Set([item.url, normalizedUrl, ...resolved.chain]))
+          .filter(url => url !== resolved.url);
+
+        // Feeds often carry escaped markup and entities in titles and teasers
+        const title = this.pageDecoder.toPlainText(item.title) || item.title;
+        const description = item.description ? this.pageDecoder.toPlainText(item.description) : undefined;
+
         // Generate slug from title
-        const slug = this.generateSlug(item.title);
+        const slug = this.generateSlug(title);
+
+        const metadata: Record<string, any> = {
+          description,
+          guid: item.guid,
+          updatedAt: item.updatedAt,
+          enclosures: item.enclosures || []
+        };
 
         const article: InsertArticle = {
-          url: item.url,
-          title: item.title,
+          url: resolved.url,
+          title,
           slug,
           sourceId,
           publishedAt: item.publishedAt,
           authors: item.authors || [],
+          tags: item.categories || [],
           category: item.category || 'general',
           status: 'fetched',
-          metadata: {
-            description: item.description
-          }
+          redirects,
+          metadata
         };
 
         await storage.createArticle(article);
@@ -134,13 +147,13 @@ export class NewsService {
   }
 
   async fetchAllActiveSources(): Promise<void> {
-    const sources = await storage.getActiveRssSources();
+    const sources = await storage.getActiveSources();
     
     for (const source of sources) {
       try {
         console.log(`Fetching from ${source.name}...`);
-        const items = await this.fetchFromRss(source);
-        const savedCount = await this.saveArticles(items, source.id);
+        const { items, articleBudget } = await this.fetchFromSource(source);
+        const savedCount = await this.saveArticles(items, source.id, articleBudget);
         console.log(`Saved ${savedCount} new articles from ${source.name}`);
 
         // Create extraction jobs for new articles
@@ -151,7 +164,7 @@ export class NewsService {
     }
   }
 
-  private async createExtractionJobs(sourceId: string): Promise<void> {
+  async createExtractionJobs(sourceId: string): Promise<void> {
     const articles = await storage.getArticlesByStatus('fetched', 10);
     const sourceArticles = articles.filter(article => article.sourceId === sourceId);
 
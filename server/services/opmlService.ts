@@ -0,0 +1,178 @@
+import * as cheerio from "cheerio";
+import { type Cheerio, type CheerioAPI } from "cheerio";
+import { storage } from "../storage";
+import { insertSourceSchema, type Source } from "@shared/schema";
+
+export interface OpmlOutline {
+  name: string;
+  rssUrl: string;
+  htmlUrl?: string;
+  category: string;
+}
+
+export interface OpmlImportResult {
+  created: Source[];
+  skipped: Array<{ name: string; rssUrl: string; reason: string }>;
+  invalid: Array<{ name?: string; rssUrl?: string; reason: string }>;
+}
+
+export class OpmlService {
+  async importSources(opml: string): Promise<OpmlImportResult> {
+    const result: OpmlImportResult = { created: [], skipped: [], invalid: [] };
+    const outlines = this.parse(opml, result);
+
+    const existing = await storage.getSources();
+    const knownDomains = new Set(existing.map(source => source.domain.toLowerCase()));
+
+    for (const outline of outlines) {
+      const domain = this.domainFor(outline);
+      if (!domain) {
+        result.invalid.push({ name: outline.name, rssUrl: outline.rssUrl, reason: 'Invalid feed URL' });
+        continue;
+      }
+
+      if (knownDomains.has(domain)) {
+        result.skipped.push({ name: outline.name, rssUrl: outline.rssUrl, reason: `Source for ${domain} already exists` });
+        continue;
+      }
+
+      const parsed = insertSourceSchema.safeParse({
+        name: outline.name,
+        domain,
+        type: 'rss',
+        rssUrl: outline.rssUrl,
+        category: outline.category
+      });
+
+      if (!parsed.success) {
+        result.invalid.push({
+          name: outline.name,
+          rssUrl: outline.rssUrl,
+          reason: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        });
+        continue;
+      }
+
+      try {
+        const source = await storage.createSource(parsed.data);
+        knownDomains.add(domain);
+        result.created.push(source);
+      } catch (error) {
+        result.invalid.push({
+          name: outline.name,
+          rssUrl: outline.rssUrl,
+          reason: error instanceof Error ? error.message : 'Failed to create source'
+        });
+      }
+    }
+
+    return result;
+  }
+
+  parse(opml: string, result?: OpmlImportResult): OpmlOutline[] {
+    const $ = cheerio.load(opml, { xml: true });
+    const body = $('opml > body').first();
+    if (body.length === 0) {
+      throw new Error('Not an OPML document');
+    }
+
+    const outlines: OpmlOutline[] = [];
+    this.collectOutlines($, body, undefined, outlines, result);
+    return outlines;
+  }
+
+  private collectOutlines(
+    $: CheerioAPI,
+    parent: Cheerio<any>,
+    folder: string | undefined,
+    outlines: OpmlOutline[],
+    result?: OpmlImportResult
+  ): void {
+    parent.children('outline').each((_, el) => {
+      const outline = $(el);
+      const name = (outline.attr('title') || outline.attr('text') || '').trim();
+      const xmlUrl = outline.attr('xmlUrl')?.trim();
+
+      // Outlines without a feed URL are folders; their label becomes the category
+      if (!xmlUrl) {
+        if (outline.children('outline').length > 0) {
+          this.collectOutlines($, outline, name || folder, outlines, result);
+        } else {
+          result?.invalid.push({ name, reason: 'Outline has no xmlUrl' });
+        }
+        return;
+      }
+
+      outlines.push({
+        name: name || xmlUrl,
+        rssUrl: xmlUrl,
+        htmlUrl: outline.attr('htmlUrl')?.trim() || undefined,
+        category: this.categoryFor(outline.attr('category'), folder)
+      });
+    });
+  }
+
+  // OPML categories are comma-separated slash-delimited paths, e.g. "/Tech/AI,/News"
+  private categoryFor(categoryAttr: string | undefined, folder: string | undefined): string {
+    const [firstPath] = (categoryAttr || '').split(',').map(path => path.trim()).filter(Boolean);
+    const fromAttr = firstPath?.split('/').filter(Boolean)[0];
+    return (fromAttr || folder || 'general').trim().toLowerCase();
+  }
+
+  private domainFor(outline: OpmlOutline): string | undefined {
+    for (const candidate of [outline.htmlUrl, outline.rssUrl]) {
+      if (!candidate) continue;
+      try {
+        const url = new URL(candidate);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+        return url.hostname.toLowerCase().replace(/^www\./, '');
+      } catch (error) {
+        continue;
+      }
+    }
+    return undefined;
+  }
+
+  exportSources(sources: Source[]): string {
+    const byCategory = new Map<string, Source[]>();
+    sources
+      .filter(source => source.rssUrl)
+      .forEach(source => {
+        const group = byCategory.get(source.category) || [];
+        group.push(source);
+        byCategory.set(source.category, group);
+      });
+
+    const groups = Array.from(byCategory.keys()).sort().map(category => {
+      const feeds = byCategory.get(category)!
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(source => `      <outline type="rss" text="${this.escapeXml(source.name)}" title="${this.escapeXml(source.name)}" xmlUrl="${this.escapeXml(source.rssUrl!)}" htmlUrl="${this.escapeXml(`https://${source.domain}/`)}" category="/${this.escapeXml(category)}"/>`)
+        .join('\n');
+
+      return `    <outline text="${this.escapeXml(category)}" title="${this.escapeXml(category)}">\n${feeds}\n    </outline>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<opml version="2.0">',
+      '  <head>',
+      '    <title>NewsAI Sources</title>',
+      `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+      '  </head>',
+      '  <body>',
+      ...groups,
+      '  </body>',
+      '</opml>',
+      ''
+    ].join('\n');
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -0,0 +1,108 @@
+import * as cheerio from "cheerio";
+
+// How far into the document to look for <meta charset> or an XML declaration
+const PRESCAN_BYTES = 4096;
+
+// Elements whose boundaries separate words when markup is flattened to text
+const BLOCK_TAGS = 'p, div, br, li, dt, dd, tr, td, th, blockquote, h1, h2, h3, h4, h5, h6, figcaption, section, article';
+
+// Node decodes windows-1252 as ISO-8859-1, leaving 0x80-0x9F as C1 controls
+// instead of the punctuation publishers actually meant
+const WINDOWS_1252_C1 =
+  '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+export interface DecodedPage {
+  text: string;
+  charset: string;
+  detectedFrom: 'bom' | 'header' | 'meta' | 'default';
+}
+
+export class PageDecoder {
+  /**
+   * Decodes a response body using, in order: a byte order mark, the
+   * Content-Type charset, a <meta charset> / XML encoding declaration near
+   * the top of the document, then UTF-8. Labels the platform decoder does
+   * not know fall through to the next source.
+   */
+  decode(bytes: Uint8Array, contentType?: string | null): DecodedPage {
+    const bom = this.sniffBom(bytes);
+    if (bom) {
+      return { text: new TextDecoder(bom).decode(bytes), charset: bom, detectedFrom: 'bom' };
+    }
+
+    const candidates: { label: string | undefined; from: DecodedPage['detectedFrom'] }[] = [
+      { label: this.charsetFromContentType(contentType), from: 'header' },
+      { label: this.charsetFromDocument(bytes), from: 'meta' }
+    ];
+
+    for (const candidate of candidates) {
+      const decoder = this.decoderFor(candidate.label);
+      if (decoder) {
+        return { text: this.decodeWith(decoder, bytes), charset: decoder.encoding, detectedFrom: candidate.from };
+      }
+    }
+
+    // Undeclared pages are usually UTF-8; the ones that are not are almost always Windows-1252
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), charset: 'utf-8', detectedFrom: 'default' };
+    } catch (error) {
+      return { text: this.decodeWith(new TextDecoder('windows-1252'), bytes), charset: 'windows-1252', detectedFrom: 'default' };
+    }
+  }
+
+  /**
+   * Flattens an HTML fragment (feed titles, teasers) to plain text, decoding
+   * every named and numeric character reference along the way.
+   */
+  toPlainText(html: string): string {
+    if (!/[<&]/.test(html)) return html.replace(/\s+/g, ' ').trim();
+
+    const $ = cheerio.load(html, null, false);
+    $('script, style, noscript').remove();
+    $(BLOCK_TAGS).each((_, el) => {
+      $(el).before(' ').after(' ');
+    });
+    return $.root().text().replace(/\s+/g, ' ').trim();
+  }
+
+  private decodeWith(decoder: TextDecoder, bytes: Uint8Array): string {
+    const text = decoder.decode(bytes);
+    if (decoder.encoding !== 'windows-1252') return text;
+    return text.replace(/[\u0080-\u009f]/g, char => WINDOWS_1252_C1.charAt(char.charCodeAt(0) - 0x80));
+  }
+
+  private sniffBom(bytes: Uint8Array): string | undefined {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    return undefined;
+  }
+
+  private charsetFromContentType(contentType?: string | null): string | undefined {
+    const match = (contentType || '').match(/charset\s*=\s*["']?([^"';\s]+)/i);
+    return match ? match[1] : undefined;
+  }
+
+  private charsetFromDocument(bytes: Uint8Array): string | undefined {
+    // Declarations are ASCII, so any single-byte view of the head will do
+    const head = Buffer.from(bytes.subarray(0, PRESCAN_BYTES)).toString('latin1');
+    const declared =
+      head.match(/<meta[^>]+charset\s*=\s*["']?\s*([^"'>;\s/]+)/i) ||
+      head.match(/^\s*<\?xml[^>]+encoding\s*=\s*["']([^"']+)["']/i);
+    if (!declared) return undefined;
+
+    // A document that could be prescanned as ASCII cannot really be UTF-16
+    return /^utf-16/i.test(declared[1]) ? 'utf-8' : declared[1];
+  }
+
+  private decoderFor(label: string | undefined): TextDecoder | undefined {
+    if (!label) return undefined;
+    try {
+      return new TextDecoder(label.trim().toLowerCase());
+    } catch (error) {
+      console.warn(`Unknown charset "${label}", ignoring`);
+      return undefined;
+    }
+  }
+}
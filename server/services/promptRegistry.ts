@@ -0,0 +1,375 @@
+import { storage } from "../storage";
+import { type PromptSummary, type PromptTemplate } from "@shared/schema";
+import { type LlmTask } from "./llm";
+
+const HUMANIZED_CONTENT_SCHEMA = {
+  type: "object",
+  properties: {
+    tldr: { type: "string" },
+    bullets: {
+      type: "array",
+      items: { type: "string" }
+    },
+    humanizedHtml: { type: "string" },
+    humanizedPlain: { type: "string" },
+    entities: {
+      type: "object",
+      properties: {
+        orgs: { type: "array", items: { type: "string" } },
+        persons: { type: "array", items: { type: "string" } },
+        places: { type: "array", items: { type: "string" } }
+      },
+      required: ["orgs", "persons", "places"]
+    },
+    confidence: { type: "number" }
+  },
+  required: ["tldr", "bullets", "humanizedHtml", "humanizedPlain", "entities", "confidence"]
+};
+
+const CHUNK_NOTES_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    keyFacts: { type: "array", items: { type: "string" } },
+    quotes: { type: "array", items: { type: "string" } },
+    entities: HUMANIZED_CONTENT_SCHEMA.properties.entities
+  },
+  required: ["summary", "keyFacts", "quotes", "entities"]
+};
+
+export interface PromptDefinition {
+  // Values the calling code supplies; templates may not reference anything else
+  variables: string[];
+  systemPrompt: string;
+  userPrompt: string;
+  responseSchema: Record<string, any>;
+}
+
+// Version 1 of every prompt, stored on first use
+export const DEFAULT_PROMPTS: Record<LlmTask, PromptDefinition> = {
+  'humanize': {
+    variables: ['title', 'sourceUrl', 'articleText', 'relatedCoverage'],
+    systemPrompt: `You are a precise, neutral news editor. Only use the provided article text. Do not invent facts. If a fact is missing, say 'Not stated in article.' Preserve quoted text and attribute sources.
+
+Output a JSON object with these fields:
+- tldr: string (2 concise sentences summarizing the key points)
+- bullets: string[] (4-8 factual bullet points)
+- humanizedHtml: string (150-400 words, well-structured HTML with paragraphs)
+- humanizedPlain: string (same content as plain text)
+- entities: object with orgs[], persons[], places[] arrays
+- confidence: number (0-100, your confidence in the accuracy)
+
+Guidelines:
+- Add context and interpretation without inventing facts
+- Use natural, engaging language while preserving factual accuracy
+- Include proper attribution and quotes
+- Structure content for readability
+- Extract named entities accurately{{#relatedCoverage}}
+- Additional coverage from other outlets is provided; combine facts from all sources, attribute facts reported by only one outlet, and note where sources disagree{{/relatedCoverage}}`,
+    userPrompt: `Title: {{title}}
+
+Source URL: {{sourceUrl}}
+
+Article Text:
+{{articleText}}
+{{relatedCoverage}}
+Please humanize this article following the guidelines above.`,
+    responseSchema: HUMANIZED_CONTENT_SCHEMA
+  },
+
+  // Long articles: notes are taken from each part, then composed into one report
+  'humanize-chunk': {
+    variables: ['title', 'part', 'partCount', 'chunkText'],
+    systemPrompt: `You are a precise, neutral news editor taking notes on one part of a long article. Only use the provided excerpt. Do not invent facts. The excerpt may begin with a few paragraphs repeated from the previous part.
+
+Output a JSON object with these fields:
+- summary: string (2-4 sentences on what this part covers)
+- keyFacts: string[] (every distinct fact in this part: figures, dates, names, events and attributed claims, each as a self-contained sentence)
+- quotes: string[] (direct quotes copied verbatim, each followed by " - " and the speaker)
+- entities: object with orgs[], persons[], places[] arrays`,
+    userPrompt: `Title: {{title}}
+
+Part {{part}} of {{partCount}}:
+{{chunkText}}
+
+Please take notes on this part following the guidelines above.`,
+    responseSchema: CHUNK_NOTES_SCHEMA
+  },
+
+  'humanize-compose': {
+    variables: ['title', 'sourceUrl', 'partCount', 'chunkNotes', 'relatedCoverage'],
+    systemPrompt: `You are a precise, neutral news editor. The article is too long to read at once, so you are given notes taken from each of its {{partCount}} parts, in order. Only use the facts in these notes. Do not invent facts. If a fact is missing, say 'Not stated in article.' Preserve quoted text and attribute sources.
+
+Output a JSON object with these fields:
+- tldr: string (2 concise sentences summarizing the key points of the whole article)
+- bullets: string[] (4-8 factual bullet points drawn from all parts)
+- humanizedHtml: string (300-800 words, well-structured HTML with paragraphs)
+- humanizedPlain: string (same content as plain text)
+- entities: object with orgs[], persons[], places[] arrays
+- confidence: number (0-100, your confidence in the accuracy)
+
+Guidelines:
+- Cover the whole article, including findings that only appear in the later parts
+- Facts repeated in neighbouring parts come from overlapping text; mention them once
+- Use natural, engaging language while preserving factual accuracy
+- Include proper attribution and quotes
+- Structure content for readability{{#relatedCoverage}}
+- Additional coverage from other outlets is provided; combine facts from all sources, attribute facts reported by only one outlet, and note where sources disagree{{/relatedCoverage}}`,
+    userPrompt: `Title: {{title}}
+
+Source URL: {{sourceUrl}}
+
+Notes by part:
+{{chunkNotes}}
+{{relatedCoverage}}
+Please write the humanized article from these notes following the guidelines above.`,
+    responseSchema: HUMANIZED_CONTENT_SCHEMA
+  },
+
+  'summarize-teaser': {
+    variables: ['title', 'sourceUrl', 'teaser'],
+    systemPrompt: `You are a precise, neutral news editor. You only have the headline and the publisher's short teaser, not the full article. Summarize only what the teaser states. Do not invent facts or speculate about the rest of the story.
+
+Output a JSON object with these fields:
+- tldr: string (1-2 sentences)
+- bullets: string[] (1-3 factual bullet points taken from the teaser)
+- humanizedHtml: string (one or two short HTML paragraphs)
+- humanizedPlain: string (same content as plain text)
+- entities: object with orgs[], persons[], places[] arrays
+- confidence: number (0-100, your confidence in the accuracy)`,
+    userPrompt: `Title: {{title}}
+
+Source URL: {{sourceUrl}}
+
+Teaser:
+{{teaser}}
+
+Please summarize this teaser following the guidelines above.`,
+    responseSchema: HUMANIZED_CONTENT_SCHEMA
+  },
+
+  'fact-check': {
+    variables: ['originalText', 'humanizedText', 'excerpt'],
+    systemPrompt: `You are a fact-checking expert. Compare the humanized text with the original article and identify any factual discrepancies.
+
+Output a JSON array of fact-check objects with these fields:
+- claim: string (the specific claim being checked)
+- verified: boolean (true if the claim matches the original)
+- confidence: number (0-100, confidence in the verification)
+
+Focus on:
+- Numbers, dates, and statistics
+- Names of people and organizations
+- Specific quotes and attributions
+- Key facts and events{{#excerpt}}
+
+The original article is long, so you are given only {{excerpt}} of it. Check only the claims in the humanized version that this excerpt confirms or contradicts, and leave out claims it does not address.{{/excerpt}}`,
+    userPrompt: `Original Article{{#excerpt}} ({{excerpt}}){{/excerpt}}:
+{{originalText}}
+
+Humanized Version:
+{{humanizedText}}
+
+Please fact-check the humanized version against the original.`,
+    responseSchema: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          claim: { type: "string" },
+          verified: { type: "boolean" },
+          confidence: { type: "number" }
+        },
+        required: ["claim", "verified", "confidence"]
+      }
+    }
+  },
+
+  'similarity': {
+    variables: ['originalText', 'humanizedText'],
+    systemPrompt: `You are a text similarity analyzer. Compare the two texts and return a similarity score from 0-100.
+
+0-30: Completely different content or meaning
+31-60: Some similar themes but significantly different
+61-80: Similar content with moderate rewording
+81-95: Very similar with minor changes
+96-100: Nearly identical text
+
+Consider:
+- Semantic meaning and key facts
+- Structure and flow
+- Specific details and examples
+- Overall message and tone
+
+Return only a JSON object with a "similarity" field containing the score.`,
+    userPrompt: `Original Text:
+{{originalText}}
+
+Humanized Text:
+{{humanizedText}}
+
+What is the similarity score?`,
+    responseSchema: {
+      type: "object",
+      properties: {
+        similarity: { type: "number" }
+      },
+      required: ["similarity"]
+    }
+  }
+};
+
+export const PROMPT_NAMES = Object.keys(DEFAULT_PROMPTS) as LlmTask[];
+
+// {{name}}, {{#name}} or {{/name}}
+const PLACEHOLDER_PATTERN = /\{\{\s*([#\/]?)\s*([\w-]+)\s*\}\}/g;
+const SECTION_PATTERN = /\{\{\s*#\s*([\w-]+)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}/g;
+
+export class PromptValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptValidationError';
+  }
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  schema: Record<string, any>;
+  model: string | null;
+}
+
+export interface PromptVersionInput {
+  systemPrompt: string;
+  userPrompt: string;
+  model?: string | null;
+  responseSchema?: Record<string, any>;
+  notes?: string | null;
+  activate?: boolean;
+}
+
+export class PromptRegistry {
+  isPromptName(name: string): name is LlmTask {
+    return PROMPT_NAMES.includes(name as LlmTask);
+  }
+
+  /**
+   * The active version of a prompt. Prompts that were never stored get the
+   * built-in default saved as version 1.
+   */
+  async getActive(name: LlmTask): Promise<PromptTemplate> {
+    const active = await storage.getActivePromptTemplate(name);
+    if (active) return active;
+
+    const versions = await storage.getPromptTemplates(name);
+    if (versions.length > 0) return versions[0];
+
+    const definition = DEFAULT_PROMPTS[name];
+    try {
+      return await storage.createPromptTemplate({
+        name,
+        version: 1,
+        systemPrompt: definition.systemPrompt,
+        userPrompt: definition.userPrompt,
+        variables: definition.variables,
+        responseSchema: definition.responseSchema,
+        isActive: true,
+        notes: 'Built-in default'
+      });
+    } catch (error) {
+      // Another worker stored the default first
+      const stored = await storage.getActivePromptTemplate(name);
+      if (stored) return stored;
+      throw error;
+    }
+  }
+
+  /** Every prompt with its versions (newest first), defaults included. */
+  async listPrompts(): Promise<PromptSummary[]> {
+    const prompts: PromptSummary[] = [];
+    for (const name of PROMPT_NAMES) {
+      await this.getActive(name);
+      prompts.push({
+        name,
+        variables: DEFAULT_PROMPTS[name].variables,
+        versions: await storage.getPromptTemplates(name)
+      });
+    }
+    return prompts;
+  }
+
+  async render(name: LlmTask, values: Record<string, string>): Promise<RenderedPrompt> {
+    const template = await this.getActive(name);
+    return {
+      templateId: template.id,
+      version: template.version,
+      systemPrompt: this.renderTemplate(template.systemPrompt, values),
+      userPrompt: this.renderTemplate(template.userPrompt, values),
+      schema: template.responseSchema,
+      model: template.model || null
+    };
+  }
+
+  /**
+   * Fills {{name}} placeholders and keeps {{#name}}...{{/name}} sections only
+   * when the value is non-empty. Values are inserted as-is and never parsed.
+   */
+  renderTemplate(text: string, values: Record<string, string>): string {
+    return text
+      .replace(SECTION_PATTERN, (_, name: string, body: string) => (values[name] ? body : ''))
+      .replace(PLACEHOLDER_PATTERN, (match, marker: string, name: string) => (marker ? '' : values[name] ?? ''));
+  }
+
+  /**
+   * Stores an edited prompt as the next version of its name; it becomes the
+   * active one unless activate is false.
+   */
+  async createVersion(name: LlmTask, input: PromptVersionInput, createdBy?: string): Promise<PromptTemplate> {
+    const definition = DEFAULT_PROMPTS[name];
+    const current = await this.getActive(name);
+    const responseSchema = input.responseSchema || current.responseSchema;
+
+    this.validate(name, input.systemPrompt, input.userPrompt, responseSchema);
+
+    const versions = await storage.getPromptTemplates(name);
+    const template = await storage.createPromptTemplate({
+      name,
+      version: Math.max(0, ...versions.map(version => version.version)) + 1,
+      systemPrompt: input.systemPrompt,
+      userPrompt: input.userPrompt,
+      variables: definition.variables,
+      model: input.model?.trim() || null,
+      responseSchema,
+      isActive: false,
+      notes: input.notes ?? null,
+      createdBy: createdBy ?? null
+    });
+
+    if (input.activate === false) return template;
+    return (await storage.activatePromptTemplate(template.id)) || template;
+  }
+
+  private validate(name: LlmTask, systemPrompt: string, userPrompt: string, responseSchema: Record<string, any>): void {
+    const definition = DEFAULT_PROMPTS[name];
+
+    if (!systemPrompt.trim() || !userPrompt.trim()) {
+      throw new PromptValidationError('System and user prompts are required');
+    }
+
+    const referenced = `${systemPrompt}\n${userPrompt}`.match(PLACEHOLDER_PATTERN) || [];
+    const unknown = Array.from(new Set(referenced.map(placeholder => placeholder.replace(/[{}#\/\s]/g, ''))))
+      .filter(variable => !definition.variables.includes(variable));
+    if (unknown.length > 0) {
+      throw new PromptValidationError(
+        `Unknown variables: ${unknown.join(', ')}; ${name} supports ${definition.variables.join(', ')}`
+      );
+    }
+
+    // The pipeline reads the response in a fixed shape, so the top-level type cannot change
+    if (!responseSchema || typeof responseSchema !== 'object' || responseSchema.type !== definition.responseSchema.type) {
+      throw new PromptValidationError(`Response schema must be a JSON schema of type "${definition.responseSchema.type}"`);
+    }
+  }
+}
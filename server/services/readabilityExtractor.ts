@@ -0,0 +1,316 @@
+import * as cheerio from "cheerio";
+import { type Cheerio, type CheerioAPI } from "cheerio";
+import { type AnyNode, type Element, isTag, isText } from "domhandler";
+
+// Elements that never hold article prose
+const STRIP_TAGS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg', 'canvas',
+  'form', 'button', 'input', 'select', 'textarea', 'nav', 'footer', 'aside', 'dialog'
+];
+
+const NEGATIVE_HINTS = /(^|[\s_-])(ad|ads|advert|advertisement|banner|breadcrumbs?|comments?|cookie|footer|header|masthead|menu|modal|nav|navigation|newsletter|outbrain|pagination|popup|promo|related|recommended|share|sharing|sidebar|social|sponsor|subscribe|taboola|tags|toolbar|widget)([\s_-]|$)/i;
+// Bylines and datelines are metadata rather than article text, even inside the content container
+const BYLINE_HINTS = /(^|[\s_-])(byline|author|dateline|meta)([\s_-]|$)/i;
+const POSITIVE_HINTS = /(^|[\s_-])(article|body|content|entry|main|post|story|text|blog)([\s_-]|$)/i;
+
+const BLOCK_TAGS = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'pre', 'table', 'figure'];
+const SCORABLE_TAGS = 'p, pre, td, blockquote, li';
+const INLINE_TAGS = [
+  'a', 'abbr', 'b', 'bdi', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font', 'i', 'img', 'ins',
+  'kbd', 'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr'
+];
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MAX_BLOCK_LINK_DENSITY = 0.5;
+
+export interface ExtractedContent {
+  title?: string;
+  // Plain text with paragraph breaks; headings, list items and quotes are
+  // prefixed with "## ", "- " / "1. " and "> " respectively
+  text: string;
+  blockCount: number;
+  // True when a source-specific content selector matched instead of scoring
+  usedContentSelector: boolean;
+}
+
+export interface ContentRules {
+  contentSelector?: string;
+  excludeSelectors?: string[];
+}
+
+interface Candidate {
+  el: Element;
+  score: number;
+}
+
+export class ReadabilityExtractor {
+  /**
+   * Extracts the main article text. A content selector, when given and
+   * matching, replaces the scoring heuristics; invalid selectors throw.
+   */
+  extract(html: string, rules: ContentRules = {}): ExtractedContent {
+    const $ = cheerio.load(html);
+    const title = this.findTitle($);
+
+    if (rules.excludeSelectors && rules.excludeSelectors.length > 0) {
+      $(rules.excludeSelectors.join(', ')).remove();
+    }
+
+    let root: AnyNode[] = rules.contentSelector ? this.selectContent($, rules.contentSelector) : [];
+    const usedContentSelector = root.length > 0;
+    if (usedContentSelector) {
+      $(STRIP_TAGS.join(', ')).remove();
+    } else {
+      this.removeBoilerplate($);
+      root = this.findContentRoot($);
+    }
+
+    const blocks: string[] = [];
+    root.forEach(el => this.collectBlocks($, $(el), blocks));
+
+    // Drop a leading heading that just repeats the page title
+    if (title && blocks.length > 0 && this.normalize(blocks[0].replace(/^## /, '')) === this.normalize(title)) {
+      blocks.shift();
+    }
+
+    return {
+      title,
+      text: blocks.join('\n\n'),
+      blockCount: blocks.length,
+      usedContentSelector
+    };
+  }
+
+  // Outermost matches only, so nested matches are not emitted twice
+  private selectContent($: CheerioAPI, selector: string): AnyNode[] {
+    const matches = $(selector).toArray().filter(el => this.collapse($(el).text()).length > 0);
+    return matches.filter(el => !$(el).parents().toArray().some(parent => matches.includes(parent)));
+  }
+
+  private findTitle($: CheerioAPI): string | undefined {
+    const candidates = [
+      $('meta[property="og:title"]').attr('content'),
+      $('article h1').first().text(),
+      $('h1').first().text(),
+      $('title').first().text()
+    ];
+    const title = candidates.map(candidate => this.collapse(candidate || '')).find(Boolean);
+    return title || undefined;
+  }
+
+  private removeBoilerplate($: CheerioAPI): void {
+    $(STRIP_TAGS.join(', ')).remove();
+    $('[hidden], [aria-hidden="true"], [role="navigation"], [role="banner"], [role="complementary"], [role="dialog"]').remove();
+    $('[style]').filter((_, el) => /display\s*:\s*none|visibility\s*:\s*hidden/i.test($(el).attr('style') || '')).remove();
+
+    // <header> inside an article usually holds the headline, elsewhere it is site chrome
+    $('header').filter((_, el) => $(el).closest('article').length === 0).remove();
+
+    $('*').filter((_, el) => {
+      const node = $(el);
+      const hints = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+      if (!hints.trim() || (isTag(el) && ['html', 'body', 'article', 'main'].includes(el.name))) return false;
+      if (BYLINE_HINTS.test(hints) && this.collapse(node.text()).length < 200) return true;
+      return NEGATIVE_HINTS.test(hints) && !POSITIVE_HINTS.test(hints);
+    }).remove();
+  }
+
+  private findContentRoot($: CheerioAPI): AnyNode[] {
+    const scores = new Map<Element, number>();
+    const candidates: Element[] = [];
+
+    const initialize = (el: Element) => {
+      if (scores.has(el)) return;
+      scores.set(el, this.tagWeight(el.name) + this.classWeight($(el)));
+      candidates.push(el);
+    };
+
+    // Divs holding only inline content are paragraphs on sites that never use <p>
+    const textDivs = $('div').filter((_, el) => !$(el).children().toArray().some(child => !this.isInline(child)));
+
+    $(SCORABLE_TAGS).add(textDivs).each((_, el) => {
+      const text = this.collapse($(el).text());
+      if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+      const parent = el.parent;
+      const grandparent = parent?.parent;
+      if (!parent || !isTag(parent)) return;
+
+      // Commas and length are cheap signals of real prose
+      const score = 1 + text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+
+      initialize(parent);
+      scores.set(parent, scores.get(parent)! + score);
+      if (grandparent && isTag(grandparent)) {
+        initialize(grandparent);
+        scores.set(grandparent, scores.get(grandparent)! + score / 2);
+      }
+    });
+
+    let best: Candidate | undefined;
+    candidates.forEach(el => {
+      const score = scores.get(el)! * (1 - this.linkDensity($(el)));
+      if (!best || score > best.score) {
+        best = { el, score };
+      }
+    });
+
+    if (!best) {
+      const body = $('body').toArray();
+      return body.length > 0 ? body.slice(0, 1) : $.root().toArray();
+    }
+
+    return this.withRelatedSiblings($, best, scores);
+  }
+
+  // Articles split across sibling containers (e.g. around an inline ad) are stitched back together
+  private withRelatedSiblings($: CheerioAPI, best: Candidate, scores: Map<Element, number>): Element[] {
+    const parent = best.el.parent;
+    if (!parent || !isTag(parent)) return [best.el];
+
+    const threshold = Math.max(10, best.score * 0.2);
+    const bestHints = `${$(best.el).attr('class') || ''}`;
+
+    return $(parent).children().toArray().filter(sibling => {
+      if (sibling === best.el) return true;
+
+      const node = $(sibling);
+      let score = scores.has(sibling) ? scores.get(sibling)! * (1 - this.linkDensity(node)) : 0;
+      if (bestHints && node.attr('class') === bestHints) score += best.score * 0.2;
+      if (score >= threshold) return true;
+
+      if (sibling.name === 'p') {
+        const text = this.collapse(node.text());
+        const density = this.linkDensity(node);
+        return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+      }
+      return false;
+    });
+  }
+
+  private collectBlocks($: CheerioAPI, node: Cheerio<any>, blocks: string[]): void {
+    const el = node.get(0);
+    if (!el) return;
+    const name = (el.name || '').toLowerCase();
+
+    if (/^h[1-6]$/.test(name)) {
+      const text = this.collapse(node.text());
+      if (text) blocks.push(`## ${text}`);
+      return;
+    }
+
+    if (name === 'ul' || name === 'ol') {
+      const items = node.children('li').toArray()
+        .map(li => this.collapse($(li).text()))
+        .filter(Boolean);
+      if (items.length > 0 && this.linkDensity(node) <= MAX_BLOCK_LINK_DENSITY) {
+        blocks.push(items.map((item, index) => name === 'ol' ? `${index + 1}. ${item}` : `- ${item}`).join('\n'));
+      }
+      return;
+    }
+
+    if (name === 'blockquote') {
+      const text = this.collapse(node.text());
+      if (text) blocks.push(`> ${text}`);
+      return;
+    }
+
+    if (name === 'pre') {
+      const text = node.text().replace(/^\n+|\s+$/g, '');
+      if (text) blocks.push(text);
+      return;
+    }
+
+    if (name === 'p') {
+      const text = this.collapse(node.text());
+      if (text && this.linkDensity(node) <= MAX_BLOCK_LINK_DENSITY) blocks.push(text);
+      return;
+    }
+
+    if (name === 'figure' || name === 'table') {
+      const caption = this.collapse(node.find('figcaption, caption').first().text());
+      if (caption) blocks.push(caption);
+      return;
+    }
+
+    // Containers: recurse into block children and treat loose text runs as paragraphs
+    let inline = '';
+    const flush = () => {
+      const text = this.collapse(inline);
+      if (text.length >= MIN_PARAGRAPH_LENGTH || (text && /[.!?]$/.test(text))) blocks.push(text);
+      inline = '';
+    };
+
+    node.contents().each((_, child) => {
+      if (isText(child)) {
+        inline += child.data;
+      } else if (isTag(child)) {
+        const childName = child.name.toLowerCase();
+        if (childName === 'br') {
+          flush();
+        } else if (!this.isInline(child) || this.containsBlocks($(child))) {
+          flush();
+          this.collectBlocks($, $(child), blocks);
+        } else {
+          inline += $(child).text();
+        }
+      }
+    });
+    flush();
+  }
+
+  private containsBlocks(node: Cheerio<any>): boolean {
+    return node.find(BLOCK_TAGS.join(', ')).length > 0;
+  }
+
+  private isInline(el: AnyNode): boolean {
+    return !isTag(el) || el.name === 'br' || INLINE_TAGS.includes(el.name.toLowerCase());
+  }
+
+  private tagWeight(name: string): number {
+    switch (name) {
+      case 'article': return 10;
+      case 'main':
+      case 'div': return 5;
+      case 'section':
+      case 'pre':
+      case 'td':
+      case 'blockquote': return 3;
+      case 'ol':
+      case 'ul':
+      case 'dl':
+      case 'li':
+      case 'form': return -3;
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      case 'th': return -5;
+      default: return 0;
+    }
+  }
+
+  private classWeight(node: Cheerio<any>): number {
+    let weight = 0;
+    [node.attr('class'), node.attr('id')].forEach(hint => {
+      if (!hint) return;
+      if (NEGATIVE_HINTS.test(hint)) weight -= 25;
+      if (POSITIVE_HINTS.test(hint)) weight += 25;
+    });
+    if (node.attr('itemprop') === 'articleBody') weight += 25;
+    return weight;
+  }
+
+  private linkDensity(node: Cheerio<any>): number {
+    const textLength = this.collapse(node.text()).length;
+    if (textLength === 0) return 0;
+
+    const linkLength = this.collapse(node.find('a').text()).length;
+    return Math.min(linkLength / textLength, 1);
+  }
+
+  private collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private normalize(text: string): string {
+    return this.collapse(text).toLowerCase().replace(/[.,:;!?'"\u2018\u2019\u201c\u201d()\[\]\u2013\u2014-]/g, '');
+  }
+}
@@ -0,0 +1,162 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { type Article, type ArticleRevision } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours after publication at which a story is fetched again
+const DEFAULT_RECRAWL_HOURS = [1, 6, 24];
+
+// Articles that already have text worth comparing; paywalled and failed ones are left alone
+const RECRAWL_STATUSES = ['extracted', 'humanized', 'published'];
+
+// Fewer changed words than this (and no changed figures) is treated as a cosmetic edit
+const MIN_CHANGED_WORDS = 8;
+
+export type RevisionTrigger = 'extract' | 'reextract' | 'recrawl';
+
+export class RevisionService {
+  getRecrawlHours(): number[] {
+    const hours = (process.env.RECRAWL_SCHEDULE_HOURS || '')
+      .split(',')
+      .map(value => parseFloat(value))
+      .filter(value => value > 0)
+      .sort((a, b) => a - b);
+    return hours.length > 0 ? hours : DEFAULT_RECRAWL_HOURS;
+  }
+
+  hashText(text: string): string {
+    return createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+  }
+
+  /**
+   * Stores the text as a new revision unless it matches the article's current
+   * hash. Returns null when nothing changed.
+   */
+  async recordRevision(article: Article, text: string, trigger: RevisionTrigger): Promise<ArticleRevision | null> {
+    const contentHash = this.hashText(text);
+    if (contentHash === article.contentHash) return null;
+
+    const revisions = await storage.getArticleRevisions(article.id);
+    const previous = revisions[revisions.length - 1];
+    const previousText = previous?.rawText || article.rawText;
+    const changeSummary = previousText ? this.compare(previousText, text) : null;
+
+    return storage.createArticleRevision({
+      articleId: article.id,
+      revision: (previous?.revision || 0) + 1,
+      contentHash,
+      rawText: text,
+      trigger,
+      meaningful: !changeSummary || changeSummary.numbersChanged ||
+        changeSummary.addedWords + changeSummary.removedWords >= MIN_CHANGED_WORDS,
+      changeSummary
+    });
+  }
+
+  /**
+   * Applies the text found by a re-crawl. A meaningful change replaces the
+   * article text, marks the article as revised and flags an existing report
+   * for re-humanization.
+   */
+  async applyRecrawl(article: Article, text: string): Promise<ArticleRevision | null> {
+    const revision = await this.recordRevision(article, text, 'recrawl');
+    if (!revision) {
+      console.log(`No changes in ${article.url} since the last check`);
+      return null;
+    }
+
+    await storage.updateArticle(article.id, {
+      rawText: text,
+      contentHash: revision.contentHash,
+      ...(revision.meaningful ? { revisedAt: new Date() } : {})
+    });
+
+    if (!revision.meaningful) {
+      console.log(`Cosmetic edit in ${article.url} stored as revision ${revision.revision}`);
+      return revision;
+    }
+
+    const report = await storage.getReportByArticleId(article.id);
+    if (report) {
+      await storage.updateReport(report.id, { needsRehumanization: true });
+    }
+    console.log(`${article.url} was revised by the publisher (revision ${revision.revision})`);
+    return revision;
+  }
+
+  /**
+   * Queues a recrawl job for every article whose next check point has passed.
+   * Check points that had already passed when the article was first fetched
+   * are skipped, as are missed ones: a single recrawl covers them all.
+   */
+  async scheduleDueRecrawls(now = new Date()): Promise<number> {
+    const hours = this.getRecrawlHours();
+    const windowStart = new Date(now.getTime() - (hours[hours.length - 1] + 24) * HOUR_MS);
+    const candidates = await storage.getArticlesSince(windowStart, 1000);
+
+    let scheduled = 0;
+    for (const article of candidates) {
+      if (!RECRAWL_STATUSES.includes(article.status)) continue;
+
+      const checkpoint = this.dueCheckpoint(article, hours, now);
+      if (checkpoint === null) continue;
+
+      await storage.updateArticle(article.id, { recrawlCount: checkpoint });
+      await storage.createJob({
+        type: 'recrawl',
+        status: 'pending',
+        data: { articleId: article.id },
+        scheduledFor: now
+      });
+      scheduled++;
+    }
+    return scheduled;
+  }
+
+  private dueCheckpoint(article: Article, hours: number[], now: Date): number | null {
+    const fetchedAt = article.fetchedAt?.getTime() || now.getTime();
+    const base = article.publishedAt && article.publishedAt.getTime() <= fetchedAt
+      ? article.publishedAt.getTime()
+      : fetchedAt;
+
+    const passed = hours.filter(hour => base + hour * HOUR_MS <= now.getTime()).length;
+    const passedAtFetch = hours.filter(hour => base + hour * HOUR_MS <= fetchedAt).length;
+    const done = Math.max(article.recrawlCount || 0, passedAtFetch);
+    return passed > done ? passed : null;
+  }
+
+  private compare(previous: string, current: string): NonNullable<ArticleRevision['changeSummary']> {
+    const before = this.countWords(previous);
+    const after = this.countWords(current);
+
+    const surplus = (a: Map<string, number>, b: Map<string, number>) => {
+      let count = 0;
+      let numbers = false;
+      a.forEach((n, word) => {
+        const extra = n - (b.get(word) || 0);
+        if (extra > 0) {
+          count += extra;
+          if (/\d/.test(word)) numbers = true;
+        }
+      });
+      return { count, numbers };
+    };
+
+    const added = surplus(after, before);
+    const removed = surplus(before, after);
+    return {
+      addedWords: added.count,
+      removedWords: removed.count,
+      numbersChanged: added.numbers || removed.numbers
+    };
+  }
+
+  private countWords(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    (text.toLowerCase().match(/[a-z0-9\u00c0-\u024f\u0370-\uffff]+(?:[.,][0-9]+)*/g) || []).forEach(word => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    });
+    return counts;
+  }
+}
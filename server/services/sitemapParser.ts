@@ -0,0 +1,113 @@
+import * as cheerio from "cheerio";
+import { type Cheerio, type CheerioAPI } from "cheerio";
+
+export interface SitemapNewsEntry {
+  title?: string;
+  publicationDate?: Date;
+  language?: string;
+  keywords?: string[];
+}
+
+export interface SitemapUrl {
+  loc: string;
+  lastmod?: Date;
+  news?: SitemapNewsEntry;
+}
+
+export interface ParsedSitemap {
+  kind: 'index' | 'urlset';
+  sitemaps: SitemapUrl[];
+  urls: SitemapUrl[];
+}
+
+export class SitemapParser {
+  parse(xml: string, baseUrl?: string): ParsedSitemap {
+    const $ = cheerio.load(xml.replace(/^\uFEFF/, '').trim(), { xml: true });
+    const root = $.root().children().first();
+    const rootName = this.localName(root.get(0));
+
+    if (rootName === 'sitemapindex') {
+      return {
+        kind: 'index',
+        sitemaps: this.readEntries($, root, 'sitemap', baseUrl),
+        urls: []
+      };
+    }
+
+    if (rootName === 'urlset') {
+      return {
+        kind: 'urlset',
+        sitemaps: [],
+        urls: this.readEntries($, root, 'url', baseUrl)
+      };
+    }
+
+    throw new Error(`Not a sitemap document (root element: ${rootName || 'none'})`);
+  }
+
+  private readEntries($: CheerioAPI, root: Cheerio<any>, entryName: string, baseUrl?: string): SitemapUrl[] {
+    const entries: SitemapUrl[] = [];
+
+    this.children($, root, entryName).forEach(entry => {
+      const loc = this.resolveUrl(this.childText($, entry, 'loc'), baseUrl);
+      if (!loc) return;
+
+      const [news] = this.children($, entry, 'news');
+      entries.push({
+        loc,
+        lastmod: this.parseDate(this.childText($, entry, 'lastmod')),
+        news: news ? this.readNews($, news) : undefined
+      });
+    });
+
+    return entries;
+  }
+
+  private readNews($: CheerioAPI, news: Cheerio<any>): SitemapNewsEntry {
+    const [publication] = this.children($, news, 'publication');
+    const keywords = this.childText($, news, 'keywords');
+
+    return {
+      title: this.childText($, news, 'title'),
+      publicationDate: this.parseDate(this.childText($, news, 'publication_date')),
+      language: publication ? this.childText($, publication, 'language') : undefined,
+      keywords: keywords ? keywords.split(',').map(keyword => keyword.trim()).filter(Boolean) : []
+    };
+  }
+
+  // Sitemap extensions are namespaced (news:news, image:image), so match on the local name
+  private children($: CheerioAPI, node: Cheerio<any>, name: string): Cheerio<any>[] {
+    const matches: Cheerio<any>[] = [];
+    node.children().each((_, el) => {
+      if (this.localName(el) === name) {
+        matches.push($(el));
+      }
+    });
+    return matches;
+  }
+
+  private childText($: CheerioAPI, node: Cheerio<any>, name: string): string | undefined {
+    const [child] = this.children($, node, name);
+    return child?.text().trim() || undefined;
+  }
+
+  private localName(el: any): string {
+    const name: string = (el?.name || '').toLowerCase();
+    return name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+  }
+
+  private parseDate(value?: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private resolveUrl(value?: string, base?: string): string | undefined {
+    if (!value) return undefined;
+    try {
+      return new URL(value, base).toString();
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { createHash } from "crypto";
+import { gzipSync, gunzipSync } from "zlib";
+import { storage } from "../storage";
+import { type PageSnapshot, type PageSnapshotSummary } from "@shared/schema";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Response headers worth keeping for debugging; cookies and the like are dropped
+const KEPT_HEADERS = [
+  'content-type', 'content-language', 'content-length', 'last-modified', 'etag',
+  'cache-control', 'age', 'date', 'server', 'x-cache', 'link'
+];
+
+export interface FetchedPage {
+  url: string;
+  html: string;
+  statusCode?: number;
+  headers?: Record<string, string>;
+}
+
+export class SnapshotService {
+  getRetentionDays(): number {
+    const days = parseInt(process.env.SNAPSHOT_RETENTION_DAYS || '', 10);
+    return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Stores the pages fetched for one extraction run. All pages share the
+   * run's fetch time so a multi-page article can be replayed as a unit.
+   * A run identical to the latest stored one is not stored again.
+   */
+  async saveRun(articleId: string, pages: FetchedPage[]): Promise<PageSnapshot[]> {
+    const hashes = pages.map(page => this.hash(page.html));
+    const latest = this.latestRun(await storage.getPageSnapshotsByArticle(articleId));
+    if (latest.length === pages.length && latest.every((snapshot, index) => snapshot.contentHash === hashes[index])) {
+      return latest;
+    }
+
+    const fetchedAt = new Date();
+    const saved: PageSnapshot[] = [];
+    for (let index = 0; index < pages.length; index++) {
+      const page = pages[index];
+      const compressed = gzipSync(Buffer.from(page.html, 'utf8'));
+      saved.push(await storage.createPageSnapshot({
+        articleId,
+        url: page.url,
+        pageIndex: index,
+        statusCode: page.statusCode ?? null,
+        headers: this.filterHeaders(page.headers || {}),
+        contentHash: hashes[index],
+        htmlGzip: compressed.toString('base64'),
+        byteLength: Buffer.byteLength(page.html, 'utf8'),
+        compressedLength: compressed.length,
+        fetchedAt
+      }));
+    }
+    return saved;
+  }
+
+  /**
+   * Pages of the article's most recent run, or of the run containing the
+   * given snapshot, in page order.
+   */
+  async getRun(articleId: string, snapshotId?: string): Promise<FetchedPage[]> {
+    const snapshots = await storage.getPageSnapshotsByArticle(articleId);
+    let run = this.latestRun(snapshots);
+
+    if (snapshotId) {
+      const selected = snapshots.find(snapshot => snapshot.id === snapshotId);
+      if (!selected) return [];
+      run = snapshots
+        .filter(snapshot => snapshot.fetchedAt?.getTime() === selected.fetchedAt?.getTime())
+        .sort((a, b) => a.pageIndex - b.pageIndex);
+    }
+
+    return run.map(snapshot => this.toPage(snapshot));
+  }
+
+  async listForArticle(articleId: string): Promise<PageSnapshotSummary[]> {
+    const snapshots = await storage.getPageSnapshotsByArticle(articleId);
+    return snapshots.map(({ htmlGzip, ...summary }) => summary);
+  }
+
+  toPage(snapshot: PageSnapshot): FetchedPage {
+    return {
+      url: snapshot.url,
+      html: gunzipSync(Buffer.from(snapshot.htmlGzip, 'base64')).toString('utf8'),
+      statusCode: snapshot.statusCode ?? undefined,
+      headers: snapshot.headers || {}
+    };
+  }
+
+  // Runs on its own schedule: snapshots outlive raw text so old extractions stay debuggable
+  async pruneOld(): Promise<number> {
+    return storage.deletePageSnapshotsOlderThan(this.getRetentionDays());
+  }
+
+  private latestRun(snapshots: PageSnapshot[]): PageSnapshot[] {
+    if (snapshots.length === 0) return [];
+    const latest = Math.max(...snapshots.map(snapshot => snapshot.fetchedAt?.getTime() || 0));
+    return snapshots
+      .filter(snapshot => (snapshot.fetchedAt?.getTime() || 0) === latest)
+      .sort((a, b) => a.pageIndex - b.pageIndex);
+  }
+
+  private filterHeaders(headers: Record<string, string>): Record<string, string> {
+    const kept: Record<string, string> = {};
+    Object.keys(headers).forEach(name => {
+      if (KEPT_HEADERS.includes(name.toLowerCase())) kept[name.toLowerCase()] = headers[name];
+    });
+    return kept;
+  }
+
+  private hash(html: string): string {
+    return createHash('sha256').update(html).digest('hex');
+  }
+}
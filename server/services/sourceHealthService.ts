@@ -0,0 +1,154 @@
+import { storage } from "../storage";
+import {
+  type Source,
+  type SourceHealth,
+  type SourceHealthStatus,
+  type SourceHealthSummary
+} from "@shared/schema";
+import { WebSubService } from "./webSubService";
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+// First retry waits one scheduler cycle, then doubles up to a day
+const BASE_BACKOFF_MS = 30 * 60 * 1000;
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+// Weight of the newest sample in the rolling latency/item averages
+const AVERAGE_WEIGHT = 0.2;
+
+export class SourceHealthService {
+  private webSubService = new WebSubService();
+
+  getFailureThreshold(): number {
+    const threshold = parseInt(process.env.SOURCE_FAILURE_THRESHOLD || '', 10);
+    return threshold > 0 ? threshold : DEFAULT_FAILURE_THRESHOLD;
+  }
+
+  /**
+   * Health after a successful fetch. Returned rather than saved so the caller
+   * can persist it together with the rest of the fetch bookkeeping.
+   */
+  afterSuccess(source: Source, durationMs: number, itemCount: number): SourceHealth {
+    const previous = source.health;
+    return {
+      consecutiveFailures: 0,
+      totalFailures: previous?.totalFailures || 0,
+      lastError: previous?.lastError,
+      lastErrorAt: previous?.lastErrorAt,
+      lastSuccessAt: new Date().toISOString(),
+      avgLatencyMs: this.rollingAverage(previous?.avgLatencyMs, durationMs),
+      avgItemsPerFetch: this.rollingAverage(previous?.avgItemsPerFetch, itemCount)
+    };
+  }
+
+  async recordFailure(source: Source, error: unknown, durationMs: number): Promise<void> {
+    const previous = source.health;
+    const consecutiveFailures = (previous?.consecutiveFailures || 0) + 1;
+    const backoffMs = Math.min(BASE_BACKOFF_MS * Math.pow(2, consecutiveFailures - 1), MAX_BACKOFF_MS);
+    const shouldDisable = source.isActive !== false && consecutiveFailures >= this.getFailureThreshold();
+
+    const health: SourceHealth = {
+      consecutiveFailures,
+      totalFailures: (previous?.totalFailures || 0) + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+      lastErrorAt: new Date().toISOString(),
+      lastSuccessAt: previous?.lastSuccessAt,
+      avgLatencyMs: this.rollingAverage(previous?.avgLatencyMs, durationMs),
+      avgItemsPerFetch: previous?.avgItemsPerFetch || 0,
+      backoffUntil: new Date(Date.now() + backoffMs).toISOString(),
+      disabledAt: shouldDisable ? new Date().toISOString() : previous?.disabledAt
+    };
+
+    await storage.updateSource(source.id, shouldDisable ? { health, isActive: false } : { health });
+
+    if (shouldDisable) {
+      // A disabled source must not keep ingesting through hub pushes either
+      await this.webSubService.unsubscribe(source).catch(unsubscribeError => {
+        console.error(`Error unsubscribing ${source.name} from WebSub hub:`, unsubscribeError);
+      });
+      await this.notifyDisabled(source, health).catch(notifyError => {
+        console.error(`Error sending deactivation notice for ${source.name}:`, notifyError);
+      });
+    }
+  }
+
+  /**
+   * Clears the failure streak when an admin re-enables a source so it is
+   * polled on the next cycle instead of waiting out the old back-off.
+   */
+  async resetFailures(source: Source): Promise<Source | undefined> {
+    if (!source.health) return source;
+
+    const { backoffUntil, disabledAt, ...rest } = source.health;
+    return storage.updateSource(source.id, {
+      health: { ...rest, consecutiveFailures: 0 }
+    });
+  }
+
+  isBackingOff(source: Source, now: Date = new Date()): boolean {
+    const backoffUntil = source.health?.backoffUntil;
+    return !!backoffUntil
+      && (source.health?.consecutiveFailures || 0) > 0
+      && new Date(backoffUntil).getTime() > now.getTime();
+  }
+
+  getStatus(source: Source): SourceHealthStatus {
+    if (source.isActive === false) return 'disabled';
+    if (this.isBackingOff(source)) return 'backing-off';
+    if ((source.health?.consecutiveFailures || 0) > 0) return 'degraded';
+    return 'healthy';
+  }
+
+  async getSummary(): Promise<SourceHealthSummary> {
+    const sources = await storage.getSources();
+    // Sources switched off by hand are not a health concern
+    const tracked = sources.filter(source => source.isActive !== false || !!source.health?.disabledAt);
+
+    const summary: SourceHealthSummary = {
+      healthy: 0,
+      degraded: 0,
+      backingOff: 0,
+      disabled: 0,
+      failureThreshold: this.getFailureThreshold(),
+      sources: []
+    };
+
+    tracked.forEach(source => {
+      const status = this.getStatus(source);
+      if (status === 'healthy') summary.healthy++;
+      else if (status === 'degraded') summary.degraded++;
+      else if (status === 'backing-off') summary.backingOff++;
+      else summary.disabled++;
+
+      summary.sources.push({ id: source.id, name: source.name, status, health: source.health });
+    });
+
+    return summary;
+  }
+
+  private rollingAverage(previous: number | undefined, sample: number): number {
+    if (previous === undefined) return sample;
+    return Math.round((previous * (1 - AVERAGE_WEIGHT) + sample * AVERAGE_WEIGHT) * 100) / 100;
+  }
+
+  private async notifyDisabled(source: Source, health: SourceHealth): Promise<void> {
+    const message = `Source "${source.name}" (${source.domain}) was deactivated after ${health.consecutiveFailures} consecutive failed fetches. Last error: ${health.lastError}`;
+    console.warn(message);
+
+    const webhookUrl = process.env.ADMIN_WEBHOOK_URL;
+    if (!webhookUrl) return;
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: message,
+        event: 'source.deactivated',
+        sourceId: source.id,
+        health
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { storage } from "../storage";
+import {
+  type Article,
+  type ClusterCoverage,
+  type ReviewQueueItem,
+  type StoryCluster
+} from "@shared/schema";
+import { type RelatedCoverage } from "./humanizer";
+
+const SIGNATURE_SIZE = 64;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.3;
+// Only compare against articles fetched recently; older coverage is a different story
+const CLUSTER_WINDOW_MS = 72 * 60 * 60 * 1000;
+const MAX_SIGNATURE_CHARS = 8000;
+
+// Articles past this point already have a report, so they stay primary
+const LOCKED_PRIMARY_STATUSES = ['humanized', 'published'];
+const EXCLUDED_STATUSES = ['duplicate', 'rejected', 'failed'];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'that', 'with', 'this', 'from', 'have', 'has', 'had', 'was', 'were', 'are',
+  'but', 'not', 'you', 'his', 'her', 'its', 'they', 'them', 'their', 'will', 'would', 'could',
+  'should', 'been', 'being', 'into', 'about', 'after', 'before', 'over', 'than', 'then', 'also',
+  'said', 'says', 'more', 'most', 'some', 'such', 'which', 'what', 'when', 'where', 'who', 'whom',
+  'while', 'there', 'here', 'these', 'those', 'other', 'can', 'may', 'our', 'out', 'one', 'two',
+  'new', 'just', 'all', 'any', 'how', 'why', 'she', 'him', 'did', 'does', 'year', 'years'
+]);
+
+export class StoryClusterService {
+  getSimilarityThreshold(): number {
+    const threshold = parseFloat(process.env.STORY_CLUSTER_THRESHOLD || '');
+    return threshold > 0 && threshold <= 1 ? threshold : DEFAULT_SIMILARITY_THRESHOLD;
+  }
+
+  /**
+   * Computes the article's MinHash signature and attaches it to the closest
+   * recent story, creating a cluster when the match was not yet in one.
+   * Returns the article's cluster, or null when it is a standalone story.
+   */
+  async assignCluster(article: Article): Promise<StoryCluster | null> {
+    const minhash = this.signature(`${article.title}\n${article.rawText || ''}`);
+    await storage.updateArticle(article.id, { minhash });
+
+    // Re-extraction of an already clustered article keeps its story
+    if (article.clusterId) {
+      return (await storage.getStoryCluster(article.clusterId)) || null;
+    }
+
+    const threshold = this.getSimilarityThreshold();
+    const candidates = await storage.getArticlesSince(new Date(Date.now() - CLUSTER_WINDOW_MS));
+
+    let best: { article: Article; similarity: number } | undefined;
+    for (const candidate of candidates) {
+      if (candidate.id === article.id || !candidate.minhash || EXCLUDED_STATUSES.includes(candidate.status)) {
+        continue;
+      }
+      const similarity = this.similarity(minhash, candidate.minhash);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { article: candidate, similarity };
+      }
+    }
+
+    if (!best) return null;
+
+    let cluster = best.article.clusterId ? await storage.getStoryCluster(best.article.clusterId) : undefined;
+    if (!cluster) {
+      cluster = await storage.createStoryCluster({
+        title: best.article.title,
+        primaryArticleId: best.article.id,
+        articleIds: [best.article.id]
+      });
+      await storage.updateArticle(best.article.id, { clusterId: cluster.id });
+    }
+
+    await storage.updateArticle(article.id, { clusterId: cluster.id });
+
+    const articleIds = Array.from(new Set([...cluster.articleIds, article.id]));
+    const primary = await this.choosePrimary(cluster, articleIds, { ...article, minhash, clusterId: cluster.id });
+
+    console.log(`Clustered "${article.title}" with "${best.article.title}" (similarity ${best.similarity.toFixed(2)})`);
+
+    return (await storage.updateStoryCluster(cluster.id, {
+      articleIds,
+      primaryArticleId: primary.id,
+      title: primary.title
+    })) || { ...cluster, articleIds, primaryArticleId: primary.id, title: primary.title };
+  }
+
+  isPrimary(article: Article, cluster: StoryCluster | null | undefined): boolean {
+    return !cluster || cluster.primaryArticleId === article.id;
+  }
+
+  /**
+   * Extracted text of the other articles in the primary's cluster, for the
+   * humanize step to merge into a single story.
+   */
+  async getRelatedCoverage(article: Article): Promise<RelatedCoverage[]> {
+    const members = await this.getOtherMembers(article);
+    const related: RelatedCoverage[] = [];
+
+    for (const member of members) {
+      if (!member.rawText) continue;
+      const source = member.sourceId ? await storage.getSource(member.sourceId) : undefined;
+      related.push({ sourceName: source?.name || new URL(member.url).hostname, url: member.url, text: member.rawText });
+    }
+
+    // Longest coverage first, since the prompt only has room for a few
+    return related.sort((a, b) => b.text.length - a.text.length);
+  }
+
+  async getCoverage(article: Article): Promise<ClusterCoverage[]> {
+    const members = await this.getOtherMembers(article);
+    const coverage: ClusterCoverage[] = [];
+
+    for (const member of members) {
+      const source = member.sourceId ? await storage.getSource(member.sourceId) : undefined;
+      coverage.push({ articleId: member.id, title: member.title, url: member.url, sourceName: source?.name });
+    }
+
+    return coverage;
+  }
+
+  /**
+   * Keeps one review entry per story: the cluster primary when it is in the
+   * queue, otherwise the first entry, annotated with the other coverage.
+   */
+  async collapseReviewQueue(items: ReviewQueueItem[]): Promise<ReviewQueueItem[]> {
+    const clusters = new Map<string, StoryCluster | undefined>();
+    for (const item of items) {
+      const clusterId = item.article.clusterId;
+      if (clusterId && !clusters.has(clusterId)) {
+        clusters.set(clusterId, await storage.getStoryCluster(clusterId));
+      }
+    }
+
+    const keep = new Map<string, ReviewQueueItem>();
+    for (const item of items) {
+      const cluster = item.article.clusterId ? clusters.get(item.article.clusterId) : undefined;
+      if (!cluster) continue;
+
+      const current = keep.get(cluster.id);
+      if (!current || item.article.id === cluster.primaryArticleId) {
+        keep.set(cluster.id, item);
+      }
+    }
+
+    const collapsed: ReviewQueueItem[] = [];
+    for (const item of items) {
+      const cluster = item.article.clusterId ? clusters.get(item.article.clusterId) : undefined;
+      if (!cluster) {
+        collapsed.push(item);
+      } else if (keep.get(cluster.id) === item) {
+        collapsed.push({ ...item, alsoCoveredBy: await this.getCoverage(item.article) });
+      }
+    }
+
+    return collapsed;
+  }
+
+  private async getOtherMembers(article: Article): Promise<Article[]> {
+    if (!article.clusterId) return [];
+
+    const cluster = await storage.getStoryCluster(article.clusterId);
+    if (!cluster) return [];
+
+    const members: Article[] = [];
+    for (const id of cluster.articleIds) {
+      if (id === article.id) continue;
+      const member = await storage.getArticle(id);
+      if (member && !EXCLUDED_STATUSES.includes(member.status)) {
+        members.push(member);
+      }
+    }
+    return members;
+  }
+
+  private async choosePrimary(cluster: StoryCluster, articleIds: string[], incoming: Article): Promise<Article> {
+    const members: Article[] = [];
+    for (const id of articleIds) {
+      const member = id === incoming.id ? incoming : await storage.getArticle(id);
+      if (member) members.push(member);
+    }
+
+    const current = members.find(member => member.id === cluster.primaryArticleId);
+    if (current && LOCKED_PRIMARY_STATUSES.includes(current.status)) {
+      return current;
+    }
+
+    // The fullest account makes the best base text; ties go to whoever published first
+    const eligible = members.filter(member => !EXCLUDED_STATUSES.includes(member.status));
+    return (eligible.length > 0 ? eligible : members).sort((a, b) => {
+      const lengthDiff = (b.rawText?.length || 0) - (a.rawText?.length || 0);
+      if (lengthDiff !== 0) return lengthDiff;
+      return (a.publishedAt?.getTime() || 0) - (b.publishedAt?.getTime() || 0);
+    })[0];
+  }
+
+  private signature(text: string): number[] {
+    const tokens = this.tokenize(text.slice(0, MAX_SIGNATURE_CHARS));
+    const signature: number[] = new Array(SIGNATURE_SIZE).fill(0xffffffff);
+
+    tokens.forEach(token => {
+      for (let i = 0; i < SIGNATURE_SIZE; i++) {
+        const hash = this.hashToken(token, i);
+        if (hash < signature[i]) signature[i] = hash;
+      }
+    });
+
+    return signature;
+  }
+
+  // Fraction of matching minimums estimates the Jaccard similarity of the token sets
+  private similarity(a: number[], b: number[]): number {
+    const size = Math.min(a.length, b.length);
+    if (size === 0) return 0;
+
+    let matches = 0;
+    for (let i = 0; i < size; i++) {
+      if (a[i] === b[i]) matches++;
+    }
+    return matches / size;
+  }
+
+  private tokenize(text: string): string[] {
+    const words = text
+      .toLowerCase()
+      .replace(/[^a-z0-9À-ɏ\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+    return Array.from(new Set(words));
+  }
+
+  // FNV-1a seeded per permutation, finished with the murmur3 mixer
+  private hashToken(token: string, seed: number): number {
+    let hash = (0x811c9dc5 ^ Math.imul(seed + 1, 0x9e3779b1)) >>> 0;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+  }
+}
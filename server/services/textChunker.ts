@@ -0,0 +1,113 @@
+export interface ChunkOptions {
+  maxChars: number;
+  // Trailing paragraphs (up to this many characters) repeated at the start of the next chunk
+  overlapChars: number;
+}
+
+const PARAGRAPH_SEPARATOR = '\n\n';
+
+export class TextChunker {
+  /**
+   * Splits text into chunks of at most maxChars, breaking between paragraphs
+   * where possible, then between sentences, and only as a last resort inside
+   * a sentence. Consecutive chunks share overlapChars of context so a fact
+   * that straddles a boundary is seen whole at least once.
+   */
+  chunk(text: string, options: ChunkOptions): string[] {
+    const trimmed = text.trim();
+    if (trimmed.length <= options.maxChars) return trimmed ? [trimmed] : [];
+
+    const pieces = this.splitParagraphs(trimmed)
+      .reduce<string[]>((all, paragraph) => all.concat(this.splitLong(paragraph, options.maxChars)), []);
+
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const piece of pieces) {
+      if (current.length > 0 && length + PARAGRAPH_SEPARATOR.length + piece.length > options.maxChars) {
+        chunks.push(current.join(PARAGRAPH_SEPARATOR));
+
+        const overlap = this.tail(current, options.overlapChars);
+        const overlapLength = this.joinedLength(overlap);
+        // Drop the overlap rather than exceed the limit with it
+        current = overlapLength + PARAGRAPH_SEPARATOR.length + piece.length <= options.maxChars ? overlap : [];
+        length = this.joinedLength(current);
+      }
+
+      length += (current.length > 0 ? PARAGRAPH_SEPARATOR.length : 0) + piece.length;
+      current.push(piece);
+    }
+
+    if (current.length > 0) {
+      chunks.push(current.join(PARAGRAPH_SEPARATOR));
+    }
+    return chunks;
+  }
+
+  private splitParagraphs(text: string): string[] {
+    return text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean);
+  }
+
+  private splitLong(paragraph: string, maxChars: number): string[] {
+    if (paragraph.length <= maxChars) return [paragraph];
+
+    const sentences = this.sentences(paragraph);
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const sentence of sentences) {
+      if (current && current.length + sentence.length > maxChars) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      current += sentence;
+
+      // A single sentence longer than a chunk is cut at the last space that fits
+      while (current.length > maxChars) {
+        const cut = current.lastIndexOf(' ', maxChars);
+        const at = cut > maxChars / 2 ? cut : maxChars;
+        pieces.push(current.slice(0, at).trim());
+        current = current.slice(at);
+      }
+    }
+
+    if (current.trim()) pieces.push(current.trim());
+    return pieces;
+  }
+
+  private tail(pieces: string[], maxChars: number): string[] {
+    const tail: string[] = [];
+    let length = 0;
+    for (let i = pieces.length - 1; i >= 0; i--) {
+      const added = pieces[i].length + (tail.length > 0 ? PARAGRAPH_SEPARATOR.length : 0);
+      if (length + added > maxChars) break;
+      tail.unshift(pieces[i]);
+      length += added;
+    }
+
+    // The last paragraph alone is too long to repeat; repeat its closing sentences instead
+    if (tail.length === 0 && pieces.length > 0) {
+      const sentences = this.sentences(pieces[pieces.length - 1]);
+      let closing = '';
+      for (let i = sentences.length - 1; i > 0; i--) {
+        if (closing.length + sentences[i].length > maxChars) break;
+        closing = sentences[i] + closing;
+      }
+      if (closing.trim()) tail.push(closing.trim());
+    }
+    return tail;
+  }
+
+  private sentences(text: string): string[] {
+    return text.match(/[^.!?]+(?:[.!?]+["'”’)\]]*|$)\s*/g) || [text];
+  }
+
+  private joinedLength(pieces: string[]): number {
+    return pieces.reduce((sum, piece) => sum + piece.length, 0) +
+      Math.max(0, pieces.length - 1) * PARAGRAPH_SEPARATOR.length;
+  }
+}
@@ -0,0 +1,140 @@
+import { CrawlPolicy } from "./crawlPolicy";
+
+const MAX_REDIRECTS = 5;
+const RESOLVE_TIMEOUT_MS = 10 * 1000;
+
+// Query parameters that only identify campaigns, referrers or sessions
+const TRACKING_PARAMS = [
+  'fbclid', 'gclid', 'dclid', 'gclsrc', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok',
+  'ref', 'ref_src', 'ref_url', 'referrer', 'cmpid', 'ncid', 'ocid', 'taid',
+  'smid', 'sr_share', 'share', 'spm', 'guccounter', 'guce_referrer', 'guce_referrer_sig',
+  'amp', 'amp_js_v', 'usqp', 'outputtype'
+];
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'at_', 'itm_'];
+
+export interface ResolvedUrl {
+  url: string;
+  // Every URL visited before the canonical one, starting with the input
+  chain: string[];
+}
+
+export class UrlCanonicalizer {
+  private crawlPolicy = new CrawlPolicy();
+
+  /**
+   * Normalizes a URL without touching the network: drops fragments, tracking
+   * parameters, AMP variants, default ports and trailing slashes. An `amp.`
+   * host is kept as is: it may be a separate site, so only a redirect or the
+   * page's rel=canonical can map it to the main host.
+   */
+  normalize(input: string): string {
+    let url: URL;
+    try {
+      url = new URL(input.trim());
+    } catch (error) {
+      return input.trim();
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return url.toString();
+    }
+
+    url = this.unwrapAmpCache(url);
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+    if ((url.protocol === 'http:' && url.port === '80') || (url.protocol === 'https:' && url.port === '443')) {
+      url.port = '';
+    }
+
+    url.pathname = url.pathname
+      .replace(/\/{2,}/g, '/')
+      .replace(/\/amp\/?$/i, '/')
+      .replace(/\.amp(\.html?)?$/i, '$1')
+      .replace(/(.)\/$/, '$1');
+
+    const params = Array.from(url.searchParams.entries())
+      .filter(([key]) => !this.isTrackingParam(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    url.search = '';
+    params.forEach(([key, value]) => url.searchParams.append(key, value));
+
+    return url.toString();
+  }
+
+  /**
+   * Follows HTTP redirects (feedproxy, t.co, AMP redirects, ...) and returns
+   * the normalized landing URL with the hops taken to get there.
+   */
+  async resolve(input: string): Promise<ResolvedUrl> {
+    const chain: string[] = [];
+    let current = input;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      let response: Response;
+      try {
+        response = await this.request(current, 'HEAD');
+        // Some servers refuse HEAD outright
+        if (response.status === 405 || response.status === 501) {
+          response = await this.request(current, 'GET');
+        }
+      } catch (error) {
+        break;
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+
+      let next: string;
+      try {
+        next = new URL(location, current).toString();
+      } catch (error) {
+        break;
+      }
+
+      if (next === current || chain.includes(next)) break;
+      chain.push(current);
+      current = next;
+    }
+
+    const url = this.normalize(current);
+    return {
+      url,
+      chain: chain.concat(current).filter((hop, index, all) => hop !== url && all.indexOf(hop) === index)
+    };
+  }
+
+  private async request(url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+    await this.crawlPolicy.beforeRequest(url);
+    const response = await fetch(url, {
+      method,
+      redirect: 'manual',
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; NewsAI Bot/1.0; +https://newsai.com/bot)' },
+      signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS)
+    });
+    // Release the connection; only the status line and headers matter here
+    await response.body?.cancel().catch(() => undefined);
+    return response;
+  }
+
+  private isTrackingParam(key: string): boolean {
+    const lower = key.toLowerCase();
+    return TRACKING_PARAMS.includes(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+  }
+
+  // https://example-com.cdn.ampproject.org/c/s/example.com/story -> https://example.com/story
+  private unwrapAmpCache(url: URL): URL {
+    if (!url.hostname.endsWith('.cdn.ampproject.org')) return url;
+
+    const match = url.pathname.match(/^\/[cvi]\/(s\/)?([^/]+)(\/.*)?$/i);
+    if (!match) return url;
+
+    try {
+      return new URL(`${match[1] ? 'https' : 'http'}://${match[2]}${match[3] || '/'}${url.search}`);
+    } catch (error) {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { type Source, type SourceWebSubSubscription } from "@shared/schema";
+import { FeedParser, type RssItem } from "./feedParser";
+
+// Ask hubs for ten-day leases and renew once less than a day remains
+const LEASE_SECONDS = 10 * 24 * 60 * 60;
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+// Hubs verify asynchronously; retry requests that were never confirmed
+const PENDING_TIMEOUT_MS = 60 * 60 * 1000;
+
+const SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'];
+
+export interface WebSubVerification {
+  mode?: string;
+  topic?: string;
+  challenge?: string;
+  leaseSeconds?: string;
+  reason?: string;
+}
+
+export interface WebSubNotification {
+  body: Buffer;
+  signature?: string;
+}
+
+export class WebSubService {
+  private feedParser = new FeedParser();
+
+  isEnabled(): boolean {
+    return !!process.env.PUBLIC_BASE_URL;
+  }
+
+  getCallbackUrl(sourceId: string): string {
+    const base = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+    return `${base}/api/websub/${sourceId}`;
+  }
+
+  async ensureSubscription(source: Source, discovery: { hubs: string[]; topicUrl: string }): Promise<void> {
+    if (!this.isEnabled() || discovery.hubs.length === 0) return;
+
+    const current = source.webSub;
+    const sameTarget = current
+      && discovery.hubs.includes(current.hubUrl)
+      && current.topicUrl === discovery.topicUrl;
+
+    if (sameTarget && current.state === 'pending' && !this.isPendingExpired(current)) return;
+    if (sameTarget && current.state === 'denied') return;
+    if (sameTarget && current.state === 'subscribed' && !this.needsRenewal(current)) return;
+
+    await this.subscribe(source, current && sameTarget ? current.hubUrl : discovery.hubs[0], discovery.topicUrl);
+  }
+
+  async subscribe(source: Source, hubUrl: string, topicUrl: string): Promise<void> {
+    // Keep the secret across renewals so in-flight signed pushes still verify
+    const secret = source.webSub?.topicUrl === topicUrl && source.webSub.secret
+      ? source.webSub.secret
+      : randomBytes(32).toString('hex');
+
+    const response = await fetch(hubUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': 'NewsAI Bot 1.0 (contact@newsai.com)'
+      },
+      body: new URLSearchParams({
+        'hub.callback': this.getCallbackUrl(source.id),
+        'hub.mode': 'subscribe',
+        'hub.topic': topicUrl,
+        'hub.secret': secret,
+        'hub.lease_seconds': String(LEASE_SECONDS)
+      }).toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hub rejected subscription: HTTP ${response.status}`);
+    }
+
+    await storage.updateSource(source.id, {
+      webSub: {
+        ...source.webSub,
+        hubUrl,
+        topicUrl,
+        secret,
+        state: 'pending',
+        requestedAt: new Date().toISOString()
+      }
+    });
+
+    console.log(`Requested WebSub subscription for ${source.name} via ${hubUrl}`);
+  }
+
+  async unsubscribe(source: Source): Promise<void> {
+    const current = source.webSub;
+    if (!current || !this.isEnabled()) return;
+
+    const response = await fetch(current.hubUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        'hub.callback': this.getCallbackUrl(source.id),
+        'hub.mode': 'unsubscribe',
+        'hub.topic': current.topicUrl
+      }).toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hub rejected unsubscription: HTTP ${response.status}`);
+    }
+
+    // Stays unsubscribing until the hub verifies the intent
+    await this.updateSubscription(source, {
+      state: 'unsubscribing',
+      requestedAt: new Date().toISOString()
+    });
+
+    console.log(`Requested WebSub unsubscription for ${source.name} via ${current.hubUrl}`);
+  }
+
+  /**
+   * Handles the hub's intent verification GET. Returns the challenge to echo
+   * back, or null when the request does not match a subscription we asked for.
+   */
+  async verifyIntent(sourceId: string, verification: WebSubVerification): Promise<string | null> {
+    const source = await storage.getSource(sourceId);
+
+    // A deleted source unsubscribes on its way out and the hub verifies afterwards.
+    // Refusing would keep the hub pushing to a callback nobody reads.
+    if (!source && verification.mode === 'unsubscribe' && verification.challenge) {
+      return verification.challenge;
+    }
+
+    const current = source?.webSub;
+    if (!source || !current || verification.topic !== current.topicUrl) {
+      return null;
+    }
+
+    if (verification.mode === 'denied') {
+      await this.updateSubscription(source, { state: 'denied', deniedReason: verification.reason });
+      return '';
+    }
+
+    if (!verification.challenge) {
+      return null;
+    }
+
+    if (verification.mode === 'subscribe') {
+      const leaseSeconds = parseInt(verification.leaseSeconds || '', 10) || LEASE_SECONDS;
+      await this.updateSubscription(source, {
+        state: 'subscribed',
+        leaseExpiresAt: new Date(Date.now() + leaseSeconds * 1000).toISOString()
+      });
+      return verification.challenge;
+    }
+
+    if (verification.mode === 'unsubscribe') {
+      await this.updateSubscription(source, { state: 'unsubscribed' });
+      return verification.challenge;
+    }
+
+    return null;
+  }
+
+  /**
+   * Handles a content distribution POST from the hub. Returns the pushed items,
+   * or null when the payload was rejected and must be ignored.
+   */
+  async handleNotification(sourceId: string, notification: WebSubNotification): Promise<RssItem[] | null> {
+    const source = await storage.getSource(sourceId);
+    const current = source?.webSub;
+    // A renewal leaves the state pending while the previous lease is still valid
+    const isSubscribed = current?.state === 'subscribed' || (current?.state === 'pending' && !!current.leaseExpiresAt);
+    // Deactivated sources may still get pushes until the hub processes the unsubscribe
+    if (!source || !source.isActive || !current || !isSubscribed) {
+      return null;
+    }
+
+    if (!this.isValidSignature(current.secret, notification)) {
+      console.warn(`Ignoring WebSub push for ${source.name}: invalid signature`);
+      return null;
+    }
+
+    await this.updateSubscription(source, { lastPushAt: new Date().toISOString() });
+
+    try {
+      const feed = this.feedParser.parse(notification.body.toString('utf-8'), current.topicUrl);
+      return feed.items.map(item => ({ ...item, category: source.category }));
+    } catch (error) {
+      // Fat pings are optional; fall back to fetching the topic ourselves
+      await storage.createJob({
+        type: 'fetch',
+        status: 'pending',
+        data: { sourceId: source.id },
+        maxAttempts: 1,
+        scheduledFor: new Date()
+      });
+      return [];
+    }
+  }
+
+  async renewExpiringSubscriptions(): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const sources = await storage.getActiveSources();
+    for (const source of sources) {
+      const current = source.webSub;
+      if (current?.state === 'subscribed' && this.needsRenewal(current)) {
+        try {
+          await this.subscribe(source, current.hubUrl, current.topicUrl);
+        } catch (error) {
+          console.error(`Error renewing WebSub subscription for ${source.name}:`, error);
+        }
+      }
+    }
+  }
+
+  private needsRenewal(subscription: SourceWebSubSubscription): boolean {
+    if (!subscription.leaseExpiresAt) return false;
+    return new Date(subscription.leaseExpiresAt).getTime() - Date.now() < RENEW_BEFORE_MS;
+  }
+
+  private isPendingExpired(subscription: SourceWebSubSubscription): boolean {
+    return Date.now() - new Date(subscription.requestedAt).getTime() > PENDING_TIMEOUT_MS;
+  }
+
+  private isValidSignature(secret: string, notification: WebSubNotification): boolean {
+    const [algorithm, signature] = (notification.signature || '').split('=');
+    if (!algorithm || !signature || !SIGNATURE_ALGORITHMS.includes(algorithm.toLowerCase())) {
+      return false;
+    }
+
+    const expected = createHmac(algorithm.toLowerCase(), secret).update(notification.body).digest();
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  }
+
+  private async updateSubscription(source: Source, updates: Partial<SourceWebSubSubscription>): Promise<void> {
+    if (!source.webSub) return;
+    await storage.updateSource(source.id, {
+      webSub: { ...source.webSub, ...updates }
+    });
+  }
+}
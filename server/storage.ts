@@ -12,7 +12,20 @@ import {
   type ArticleWithReport,
   type DashboardStats,
   type QueueStatus,
-  type ApiUsage
+  type ApiUsageCounter,
+  type SourceWithStats,
+  type StoryCluster,
+  type InsertStoryCluster,
+  type PageSnapshot,
+  type InsertPageSnapshot,
+  type ArticleRevision,
+  type InsertArticleRevision,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type LlmUsageRecord,
+  type InsertLlmUsageRecord,
+  type LlmUsageTotals,
+  type LlmUsageGroup
 } from "@shared/schema";
 import { mongoDb } from "./db/mongodb";
 import { randomUUID } from "crypto";
@@ -27,19 +40,47 @@ export interface IStorage {
 
   // Source operations
   getSources(): Promise<Source[]>;
-  getActiveRssSources(): Promise<Source[]>;
+  getSource(id: string): Promise<Source | undefined>;
+  getSourcesWithStats(): Promise<SourceWithStats[]>;
+  getActiveSources(): Promise<Source[]>;
   createSource(source: InsertSource): Promise<Source>;
+  updateSource(id: string, updates: Partial<Source>): Promise<Source | undefined>;
   updateSourceLastFetch(sourceId: string): Promise<void>;
+  deleteSource(id: string): Promise<boolean>;
 
   // Article operations
   getArticles(limit?: number, offset?: number, status?: string): Promise<ArticleWithReport[]>;
+  getArticle(id: string): Promise<Article | undefined>;
   getArticleByUrl(url: string): Promise<Article | undefined>;
   getArticleBySlug(slug: string): Promise<ArticleWithReport | undefined>;
   getArticlesByStatus(status: string, limit?: number): Promise<Article[]>;
+  getArticlesSince(since: Date, limit?: number): Promise<Article[]>;
   createArticle(article: InsertArticle): Promise<Article>;
   updateArticle(id: string, updates: Partial<Article>): Promise<Article | undefined>;
   deleteOldRawText(olderThanDays: number): Promise<number>;
 
+  // Story cluster operations
+  getStoryCluster(id: string): Promise<StoryCluster | undefined>;
+  createStoryCluster(cluster: InsertStoryCluster): Promise<StoryCluster>;
+  updateStoryCluster(id: string, updates: Partial<StoryCluster>): Promise<StoryCluster | undefined>;
+
+  // Page snapshot operations
+  createPageSnapshot(snapshot: InsertPageSnapshot): Promise<PageSnapshot>;
+  getPageSnapshot(id: string): Promise<PageSnapshot | undefined>;
+  getPageSnapshotsByArticle(articleId: string): Promise<PageSnapshot[]>;
+  deletePageSnapshotsOlderThan(olderThanDays: number): Promise<number>;
+
+  // Article revision operations
+  createArticleRevision(revision: InsertArticleRevision): Promise<ArticleRevision>;
+  getArticleRevisions(articleId: string): Promise<ArticleRevision[]>;
+
+  // Prompt template operations
+  getPromptTemplates(name?: string): Promise<PromptTemplate[]>;
+  getPromptTemplate(id: string): Promise<PromptTemplate | undefined>;
+  getActivePromptTemplate(name: string): Promise<PromptTemplate | undefined>;
+  createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
+  activatePromptTemplate(id: string): Promise<PromptTemplate | undefined>;
+
   // Report operations
   getReportByArticleId(articleId: string): Promise<Report | undefined>;
   createReport(report: InsertReport): Promise<Report>;
@@ -55,7 +96,13 @@ export interface IStorage {
   // Analytics
   getDashboardStats(): Promise<DashboardStats>;
   getQueueStatus(): Promise<QueueStatus>;
-  getApiUsage(): Promise<ApiUsage>;
+  getApiUsageCount(provider: string, day: string): Promise<number>;
+  incrementApiUsage(provider: string, requests?: number): Promise<void>;
+
+  // LLM usage operations
+  createLlmUsageRecord(record: InsertLlmUsageRecord): Promise<LlmUsageRecord>;
+  getLlmUsageTotals(sinceDay: string, groupBy: LlmUsageGroup): Promise<LlmUsageTotals[]>;
+  deleteLlmUsageRecordsOlderThan(olderThanDays: number): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
@@ -64,6 +111,12 @@ export class MemStorage implements IStorage {
   private articles: Map<string, Article> = new Map();
   private reports: Map<string, Report> = new Map();
   private jobs: Map<string, Job> = new Map();
+  private apiUsageCounters: Map<string, ApiUsageCounter> = new Map();
+  private storyClusters: Map<string, StoryCluster> = new Map();
+  private pageSnapshots: Map<string, PageSnapshot> = new Map();
+  private articleRevisions: Map<string, ArticleRevision> = new Map();
+  private promptTemplates: Map<string, PromptTemplate> = new Map();
+  private llmUsageRecords: Map<string, LlmUsageRecord> = new Map();
 
   constructor() {
     // Initialize with some default sources
@@ -100,9 +153,19 @@ export class MemStorage implements IStorage {
       this.sources.set(id, {
         ...source,
         id,
+        type: 'rss',
+        connectorConfig: {},
         isActive: true,
         createdAt: new Date(),
-        lastFetchedAt: null
+        lastFetchedAt: null,
+        etag: null,
+        lastModified: null,
+        feedTtlMinutes: null,
+        skipHours: [],
+        fetchStats: null,
+        webSub: null,
+        health: null,
+        extractionRules: null
       });
     });
   }
@@ -146,24 +209,59 @@ export class MemStorage implements IStorage {
     return Array.from(this.sources.values());
   }
 
-  async getActiveRssSources(): Promise<Source[]> {
+  async getSource(id: string): Promise<Source | undefined> {
+    return this.sources.get(id);
+  }
+
+  async getSourcesWithStats(): Promise<SourceWithStats[]> {
+    const articles = Array.from(this.articles.values());
+    const failedFetchJobs = Array.from(this.jobs.values())
+      .filter(job => job.type === 'fetch' && job.status === 'failed');
+
+    return Array.from(this.sources.values()).map(source => ({
+      ...source,
+      articleCount: articles.filter(article => article.sourceId === source.id).length,
+      errorCount: failedFetchJobs.filter(job => job.data?.sourceId === source.id).length
+    }));
+  }
+
+  async getActiveSources(): Promise<Source[]> {
     return Array.from(this.sources.values()).filter(source => 
-      source.isActive && source.rssUrl
+      source.isActive && (source.rssUrl || source.apiEndpoint || source.sitemapUrl)
     );
   }
 
   async createSource(insertSource: InsertSource): Promise<Source> {
     const id = randomUUID();
     const source: Source = {
+      type: 'rss',
+      connectorConfig: {},
       ...insertSource,
       id,
       createdAt: new Date(),
-      lastFetchedAt: null
+      lastFetchedAt: null,
+      etag: null,
+      lastModified: null,
+      feedTtlMinutes: null,
+      skipHours: [],
+      fetchStats: null,
+      webSub: null,
+      health: null,
+      extractionRules: insertSource.extractionRules ?? null
     };
     this.sources.set(id, source);
     return source;
   }
 
+  async updateSource(id: string, updates: Partial<Source>): Promise<Source | undefined> {
+    const source = this.sources.get(id);
+    if (!source) return undefined;
+
+    const updatedSource = { ...source, ...updates };
+    this.sources.set(id, updatedSource);
+    return updatedSource;
+  }
+
   async updateSourceLastFetch(sourceId: string): Promise<void> {
     const source = this.sources.get(sourceId);
     if (source) {
@@ -172,6 +270,10 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async deleteSource(id: string): Promise<boolean> {
+    return this.sources.delete(id);
+  }
+
   // Article operations
   async getArticles(limit = 50, offset = 0, status?: string): Promise<ArticleWithReport[]> {
     let articles = Array.from(this.articles.values());
@@ -192,8 +294,14 @@ export class MemStorage implements IStorage {
     }));
   }
 
+  async getArticle(id: string): Promise<Article | undefined> {
+    return this.articles.get(id);
+  }
+
   async getArticleByUrl(url: string): Promise<Article | undefined> {
-    return Array.from(this.articles.values()).find(article => article.url === url);
+    return Array.from(this.articles.values()).find(article =>
+      article.url === url || (article.redirects || []).includes(url)
+    );
   }
 
   async getArticleBySlug(slug: string): Promise<ArticleWithReport | undefined> {
@@ -211,6 +319,13 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async getArticlesSince(since: Date, limit = 500): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => article.fetchedAt && article.fetchedAt >= since)
+      .sort((a, b) => (b.fetchedAt?.getTime() || 0) - (a.fetchedAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
   async createArticle(insertArticle: InsertArticle): Promise<Article> {
     const id = randomUUID();
     const article: Article = {
@@ -249,6 +364,134 @@ export class MemStorage implements IStorage {
     return deletedCount;
   }
 
+  // Story cluster operations
+  async getStoryCluster(id: string): Promise<StoryCluster | undefined> {
+    return this.storyClusters.get(id);
+  }
+
+  async createStoryCluster(insertCluster: InsertStoryCluster): Promise<StoryCluster> {
+    const id = randomUUID();
+    const cluster: StoryCluster = {
+      ...insertCluster,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.storyClusters.set(id, cluster);
+    return cluster;
+  }
+
+  async updateStoryCluster(id: string, updates: Partial<StoryCluster>): Promise<StoryCluster | undefined> {
+    const cluster = this.storyClusters.get(id);
+    if (!cluster) return undefined;
+
+    const updatedCluster = { ...cluster, ...updates, updatedAt: new Date() };
+    this.storyClusters.set(id, updatedCluster);
+    return updatedCluster;
+  }
+
+  // Page snapshot operations
+  async createPageSnapshot(insertSnapshot: InsertPageSnapshot): Promise<PageSnapshot> {
+    const id = randomUUID();
+    const snapshot: PageSnapshot = {
+      ...insertSnapshot,
+      id,
+      pageIndex: insertSnapshot.pageIndex ?? 0,
+      statusCode: insertSnapshot.statusCode ?? null,
+      headers: insertSnapshot.headers || {},
+      fetchedAt: insertSnapshot.fetchedAt || new Date()
+    };
+    this.pageSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async getPageSnapshot(id: string): Promise<PageSnapshot | undefined> {
+    return this.pageSnapshots.get(id);
+  }
+
+  async getPageSnapshotsByArticle(articleId: string): Promise<PageSnapshot[]> {
+    return Array.from(this.pageSnapshots.values())
+      .filter(snapshot => snapshot.articleId === articleId)
+      .sort((a, b) => (b.fetchedAt?.getTime() || 0) - (a.fetchedAt?.getTime() || 0) || a.pageIndex - b.pageIndex);
+  }
+
+  async deletePageSnapshotsOlderThan(olderThanDays: number): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+
+    let deletedCount = 0;
+    Array.from(this.pageSnapshots.values()).forEach(snapshot => {
+      if (snapshot.fetchedAt && snapshot.fetchedAt < cutoffDate) {
+        this.pageSnapshots.delete(snapshot.id);
+        deletedCount++;
+      }
+    });
+    return deletedCount;
+  }
+
+  // Article revision operations
+  async createArticleRevision(insertRevision: InsertArticleRevision): Promise<ArticleRevision> {
+    const id = randomUUID();
+    const revision: ArticleRevision = {
+      ...insertRevision,
+      id,
+      meaningful: insertRevision.meaningful ?? true,
+      changeSummary: insertRevision.changeSummary ?? null,
+      createdAt: new Date()
+    };
+    this.articleRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getArticleRevisions(articleId: string): Promise<ArticleRevision[]> {
+    return Array.from(this.articleRevisions.values())
+      .filter(revision => revision.articleId === articleId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  // Prompt template operations
+  async getPromptTemplates(name?: string): Promise<PromptTemplate[]> {
+    return Array.from(this.promptTemplates.values())
+      .filter(template => !name || template.name === name)
+      .sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version);
+  }
+
+  async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    return this.promptTemplates.get(id);
+  }
+
+  async getActivePromptTemplate(name: string): Promise<PromptTemplate | undefined> {
+    return Array.from(this.promptTemplates.values()).find(template => template.name === name && template.isActive);
+  }
+
+  async createPromptTemplate(insertTemplate: InsertPromptTemplate): Promise<PromptTemplate> {
+    const id = randomUUID();
+    const template: PromptTemplate = {
+      ...insertTemplate,
+      id,
+      variables: insertTemplate.variables || [],
+      model: insertTemplate.model ?? null,
+      isActive: insertTemplate.isActive ?? false,
+      notes: insertTemplate.notes ?? null,
+      createdBy: insertTemplate.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.promptTemplates.set(id, template);
+    return template;
+  }
+
+  async activatePromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    const template = this.promptTemplates.get(id);
+    if (!template) return undefined;
+
+    Array.from(this.promptTemplates.values()).forEach(other => {
+      if (other.name === template.name) {
+        this.promptTemplates.set(other.id, { ...other, isActive: other.id === id });
+      }
+    });
+    return this.promptTemplates.get(id);
+  }
+
   // Report operations
   async getReportByArticleId(articleId: string): Promise<Report | undefined> {
     return Array.from(this.reports.values()).find(report => report.articleId === articleId);
@@ -258,6 +501,13 @@ export class MemStorage implements IStorage {
     const id = randomUUID();
     const report: Report = {
       ...insertReport,
+      basis: insertReport.basis || 'full-text',
+      needsRehumanization: insertReport.needsRehumanization ?? false,
+      promptId: insertReport.promptId ?? null,
+      promptVersion: insertReport.promptVersion ?? null,
+      model: insertReport.model ?? null,
+      inputTokens: insertReport.inputTokens ?? null,
+      outputTokens: insertReport.outputTokens ?? null,
       id,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -277,7 +527,7 @@ export class MemStorage implements IStorage {
 
   async getReportsForReview(limit = 20): Promise<(Report & { article: Article; source?: Source })[]> {
     const reportsForReview = Array.from(this.reports.values())
-      .filter(report => !report.reviewedAt)
+      .filter(report => !report.reviewedAt || report.needsRehumanization)
       .slice(0, limit);
 
     return reportsForReview.map(report => {
@@ -357,15 +607,80 @@ export class MemStorage implements IStorage {
     };
   }
 
-  async getApiUsage(): Promise<ApiUsage> {
-    // In a real implementation, this would track actual API usage
-    return {
-      geminiCalls: 1247,
-      geminiLimit: 5000,
-      newsApiRequests: 856,
-      newsApiLimit: 1000,
-      mongoOperations: 23456
+  async getApiUsageCount(provider: string, day: string): Promise<number> {
+    return this.apiUsageCounters.get(`${provider}:${day}`)?.requests || 0;
+  }
+
+  async incrementApiUsage(provider: string, requests = 1): Promise<void> {
+    const day = new Date().toISOString().slice(0, 10);
+    const key = `${provider}:${day}`;
+    const counter = this.apiUsageCounters.get(key);
+
+    if (counter) {
+      counter.requests += requests;
+    } else {
+      this.apiUsageCounters.set(key, { id: randomUUID(), provider, day, requests });
+    }
+  }
+
+  // LLM usage operations
+  async createLlmUsageRecord(insertRecord: InsertLlmUsageRecord): Promise<LlmUsageRecord> {
+    const id = randomUUID();
+    const record: LlmUsageRecord = {
+      ...insertRecord,
+      id,
+      promptId: insertRecord.promptId ?? null,
+      articleId: insertRecord.articleId ?? null,
+      sourceId: insertRecord.sourceId ?? null,
+      inputTokens: insertRecord.inputTokens ?? 0,
+      outputTokens: insertRecord.outputTokens ?? 0,
+      latencyMs: insertRecord.latencyMs ?? 0,
+      costUsd: insertRecord.costUsd ?? 0,
+      success: insertRecord.success ?? true,
+      error: insertRecord.error ?? null,
+      createdAt: new Date()
     };
+    this.llmUsageRecords.set(id, record);
+    return record;
+  }
+
+  async getLlmUsageTotals(sinceDay: string, groupBy: LlmUsageGroup): Promise<LlmUsageTotals[]> {
+    const groups = new Map<string | null, LlmUsageTotals & { latencyTotal: number }>();
+
+    Array.from(this.llmUsageRecords.values()).forEach(record => {
+      if (record.day < sinceDay) return;
+
+      const key = record[groupBy];
+      const totals = groups.get(key) || {
+        key, calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, avgLatencyMs: 0, latencyTotal: 0
+      };
+      totals.calls++;
+      if (!record.success) totals.failedCalls++;
+      totals.inputTokens += record.inputTokens;
+      totals.outputTokens += record.outputTokens;
+      totals.costUsd += record.costUsd;
+      totals.latencyTotal += record.latencyMs;
+      groups.set(key, totals);
+    });
+
+    return Array.from(groups.values()).map(({ latencyTotal, ...totals }) => ({
+      ...totals,
+      avgLatencyMs: Math.round(latencyTotal / totals.calls)
+    }));
+  }
+
+  async deleteLlmUsageRecordsOlderThan(olderThanDays: number): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+
+    let deletedCount = 0;
+    Array.from(this.llmUsageRecords.values()).forEach(record => {
+      if (record.createdAt && record.createdAt < cutoffDate) {
+        this.llmUsageRecords.delete(record.id);
+        deletedCount++;
+      }
+    });
+    return deletedCount;
   }
 }
 
@@ -397,23 +712,43 @@ export class MongoStorage implements IStorage {
     return mongoDb.getSources();
   }
 
-  async getActiveRssSources(): Promise<Source[]> {
-    return mongoDb.getActiveRssSources();
+  async getSource(id: string): Promise<Source | undefined> {
+    return mongoDb.getSourceById(id);
+  }
+
+  async getSourcesWithStats(): Promise<SourceWithStats[]> {
+    return mongoDb.getSourcesWithStats();
+  }
+
+  async getActiveSources(): Promise<Source[]> {
+    return mongoDb.getActiveSources();
   }
 
   async createSource(source: InsertSource): Promise<Source> {
     return mongoDb.createSource(source);
   }
 
+  async updateSource(id: string, updates: Partial<Source>): Promise<Source | undefined> {
+    return mongoDb.updateSource(id, updates);
+  }
+
   async updateSourceLastFetch(sourceId: string): Promise<void> {
     return mongoDb.updateSourceLastFetch(sourceId);
   }
 
+  async deleteSource(id: string): Promise<boolean> {
+    return mongoDb.deleteSource(id);
+  }
+
   // Article operations
   async getArticles(limit?: number, offset?: number, status?: string): Promise<ArticleWithReport[]> {
     return mongoDb.getArticles(limit, offset, status);
   }
 
+  async getArticle(id: string): Promise<Article | undefined> {
+    return mongoDb.getArticle(id);
+  }
+
   async getArticleByUrl(url: string): Promise<Article | undefined> {
     return mongoDb.getArticleByUrl(url);
   }
@@ -426,6 +761,10 @@ export class MongoStorage implements IStorage {
     return mongoDb.getArticlesByStatus(status, limit);
   }
 
+  async getArticlesSince(since: Date, limit?: number): Promise<Article[]> {
+    return mongoDb.getArticlesSince(since, limit);
+  }
+
   async createArticle(article: InsertArticle): Promise<Article> {
     return mongoDb.createArticle(article);
   }
@@ -438,6 +777,65 @@ export class MongoStorage implements IStorage {
     return mongoDb.deleteOldRawText(olderThanDays);
   }
 
+  // Story cluster operations
+  async getStoryCluster(id: string): Promise<StoryCluster | undefined> {
+    return mongoDb.getStoryCluster(id);
+  }
+
+  async createStoryCluster(cluster: InsertStoryCluster): Promise<StoryCluster> {
+    return mongoDb.createStoryCluster(cluster);
+  }
+
+  async updateStoryCluster(id: string, updates: Partial<StoryCluster>): Promise<StoryCluster | undefined> {
+    return mongoDb.updateStoryCluster(id, updates);
+  }
+
+  async createPageSnapshot(snapshot: InsertPageSnapshot): Promise<PageSnapshot> {
+    return mongoDb.createPageSnapshot(snapshot);
+  }
+
+  async getPageSnapshot(id: string): Promise<PageSnapshot | undefined> {
+    return mongoDb.getPageSnapshot(id);
+  }
+
+  async getPageSnapshotsByArticle(articleId: string): Promise<PageSnapshot[]> {
+    return mongoDb.getPageSnapshotsByArticle(articleId);
+  }
+
+  async deletePageSnapshotsOlderThan(olderThanDays: number): Promise<number> {
+    return mongoDb.deletePageSnapshotsOlderThan(olderThanDays);
+  }
+
+  // Article revision operations
+  async createArticleRevision(revision: InsertArticleRevision): Promise<ArticleRevision> {
+    return mongoDb.createArticleRevision(revision);
+  }
+
+  async getArticleRevisions(articleId: string): Promise<ArticleRevision[]> {
+    return mongoDb.getArticleRevisions(articleId);
+  }
+
+  // Prompt template operations
+  async getPromptTemplates(name?: string): Promise<PromptTemplate[]> {
+    return mongoDb.getPromptTemplates(name);
+  }
+
+  async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    return mongoDb.getPromptTemplate(id);
+  }
+
+  async getActivePromptTemplate(name: string): Promise<PromptTemplate | undefined> {
+    return mongoDb.getActivePromptTemplate(name);
+  }
+
+  async createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    return mongoDb.createPromptTemplate(template);
+  }
+
+  async activatePromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    return mongoDb.activatePromptTemplate(id);
+  }
+
   // Report operations
   async getReportByArticleId(articleId: string): Promise<Report | undefined> {
     return mongoDb.getReportByArticleId(articleId);
@@ -481,8 +879,25 @@ export class MongoStorage implements IStorage {
     return mongoDb.getQueueStatus();
   }
 
-  async getApiUsage(): Promise<ApiUsage> {
-    return mongoDb.getApiUsage();
+  async getApiUsageCount(provider: string, day: string): Promise<number> {
+    return mongoDb.getApiUsageCount(provider, day);
+  }
+
+  async incrementApiUsage(provider: string, requests?: number): Promise<void> {
+    return mongoDb.incrementApiUsage(provider, requests);
+  }
+
+  // LLM usage operations
+  async createLlmUsageRecord(record: InsertLlmUsageRecord): Promise<LlmUsageRecord> {
+    return mongoDb.createLlmUsageRecord(record);
+  }
+
+  async getLlmUsageTotals(sinceDay: string, groupBy: LlmUsageGroup): Promise<LlmUsageTotals[]> {
+    return mongoDb.getLlmUsageTotals(sinceDay, groupBy);
+  }
+
+  async deleteLlmUsageRecordsOlderThan(olderThanDays: number): Promise<number> {
+    return mongoDb.deleteLlmUsageRecordsOlderThan(olderThanDays);
   }
 }
 
@@ -1,12 +1,22 @@
 import { storage } from "../storage";
 import { NewsService } from "../services/newsService";
 import { ExtractorService } from "../services/extractorService";
-import { humanizeArticle, performFactCheck, calculateSimilarity } from "../services/gemini";
-import { type Job } from "@shared/schema";
+import { StoryClusterService } from "../services/storyClusterService";
+import { RevisionService } from "../services/revisionService";
+import { LlmUsageService } from "../services/llmUsageService";
+import { FactVerifier } from "../services/factVerifier";
+import { SourceHealthService } from "../services/sourceHealthService";
+import { humanizeArticle, summarizeFeedDescription, performFactCheck, calculateSimilarity } from "../services/humanizer";
+import { type Article, type FactCheckResult, type Job, type LlmBudgetStatus, type ReportChecks } from "@shared/schema";
 
 export class ArticleWorker {
   private newsService = new NewsService();
   private extractorService = new ExtractorService();
+  private storyClusterService = new StoryClusterService();
+  private revisionService = new RevisionService();
+  private llmUsageService = new LlmUsageService();
+  private factVerifier = new FactVerifier();
+  private sourceHealthService = new SourceHealthService();
   private isProcessing = false;
 
   async start(): Promise<void> {
@@ -33,10 +43,23 @@ export class ArticleWorker {
   }
 
   private async processJobs(): Promise<void> {
+    await this.resumePausedJobs();
+
     const pendingJobs = await storage.getJobsByStatus('pending', 10);
+    let budget: LlmBudgetStatus | undefined;
 
     for (const job of pendingJobs) {
       try {
+        // Humanization is what spends the LLM budget; everything else keeps running
+        if (job.type === 'humanize') {
+          budget = budget || await this.llmUsageService.getBudgetStatus();
+          if (budget.exceeded) {
+            await storage.updateJob(job.id, { status: 'paused' });
+            console.log(`Daily LLM budget used up; paused humanize job ${job.id} until ${budget.resumesAt}`);
+            continue;
+          }
+        }
+
         await this.processJob(job);
       } catch (error) {
         console.error(`Error processing job ${job.id}:`, error);
@@ -45,6 +68,27 @@ export class ArticleWorker {
     }
   }
 
+  // Paused humanize jobs go back in the queue once the day's budget allows it again;
+  // other paused jobs wait until their scheduledFor time
+  private async resumePausedJobs(): Promise<void> {
+    const pausedJobs = await storage.getJobsByStatus('paused', 100);
+    if (pausedJobs.length === 0) return;
+
+    const now = Date.now();
+    const hasHumanize = pausedJobs.some(job => job.type === 'humanize');
+    const budget = hasHumanize ? await this.llmUsageService.getBudgetStatus() : undefined;
+
+    const dueJobs = pausedJobs.filter(job => job.type === 'humanize'
+      ? !budget!.exceeded
+      : !job.scheduledFor || new Date(job.scheduledFor).getTime() <= now);
+    if (dueJobs.length === 0) return;
+
+    for (const job of dueJobs) {
+      await storage.updateJob(job.id, { status: 'pending' });
+    }
+    console.log(`Resumed ${dueJobs.length} paused jobs`);
+  }
+
   private async processJob(job: Job): Promise<void> {
     console.log(`Processing job ${job.id} of type ${job.type}`);
 
@@ -66,6 +110,9 @@ export class ArticleWorker {
       case 'fact-check':
         await this.processFactCheckJob(job);
         break;
+      case 'recrawl':
+        await this.processRecrawlJob(job);
+        break;
       default:
         throw new Error(`Unknown job type: ${job.type}`);
     }
@@ -90,8 +137,14 @@ export class ArticleWorker {
       throw new Error(`Source not found: ${sourceId}`);
     }
 
-    const items = await this.newsService.fetchFromRss(source);
-    const savedCount = await this.newsService.saveArticles(items, sourceId);
+    // A retried job must not hit a failing source again before its back-off ends
+    if ((job.attempts || 0) > 0 && this.sourceHealthService.isBackingOff(source)) {
+      console.log(`Skipping retry of fetch job ${job.id} - ${source.name} is backing off until ${source.health?.backoffUntil}`);
+      return;
+    }
+
+    const { items, articleBudget } = await this.newsService.fetchFromSource(source);
+    const savedCount = await this.newsService.saveArticles(items, sourceId, articleBudget);
 
     console.log(`Fetched and saved ${savedCount} articles from ${source.name}`);
 
@@ -121,7 +174,44 @@ export class ArticleWorker {
       throw new Error(`Article not found: ${articleId}`);
     }
 
-    await this.extractorService.extractArticleContent(targetArticle);
+    const outcome = await this.extractorService.extractArticleContent(targetArticle);
+    if (outcome.status === 'duplicate' || outcome.status === 'blocked') {
+      return;
+    }
+
+    // Waits paused until the publisher's robots.txt is due to be fetched again
+    if (outcome.status === 'deferred') {
+      await storage.createJob({
+        type: 'extract',
+        status: 'paused',
+        data: { articleId },
+        scheduledFor: outcome.retryAt
+      });
+      return;
+    }
+
+    // Only the feed teaser is available; it is summarized on its own, outside any story cluster
+    if (outcome.status === 'paywalled') {
+      if (!targetArticle.metadata?.description) {
+        console.log(`Article ${articleId} is behind a ${outcome.wall.type} wall and has no feed description; skipping humanization`);
+        return;
+      }
+      await storage.createJob({
+        type: 'humanize',
+        status: 'pending',
+        data: { articleId }
+      });
+      return;
+    }
+
+    const extractedText = outcome.text;
+
+    // Other coverage of the same story is folded into the primary's humanize step
+    const cluster = await this.storyClusterService.assignCluster({ ...targetArticle, rawText: extractedText });
+    if (!this.storyClusterService.isPrimary(targetArticle, cluster)) {
+      console.log(`Article ${articleId} joined story cluster ${cluster!.id}; skipping humanization`);
+      return;
+    }
 
     // Create humanization job
     await storage.createJob({
@@ -138,29 +228,46 @@ export class ArticleWorker {
       throw new Error('Article ID not provided for humanization job');
     }
 
-    const articles = await storage.getArticlesByStatus('extracted');
-    const article = articles.find(a => a.id === articleId);
-    
-    if (!article || !article.rawText) {
+    const article = await storage.getArticle(articleId);
+
+    if (article?.status === 'paywalled') {
+      await this.summarizePaywalledArticle(article);
+      return;
+    }
+
+    // Re-humanizing rewrites the existing report after the publisher revised the article
+    const existingReport = job.data?.rehumanize ? await storage.getReportByArticleId(articleId) : undefined;
+
+    if (!article || !article.rawText || (!existingReport && article.status !== 'extracted')) {
       throw new Error(`Article not found or missing raw text: ${articleId}`);
     }
 
-    // Humanize the article using Gemini
+    // Another article may have become the story's primary since this job was queued
+    const cluster = article.clusterId ? await storage.getStoryCluster(article.clusterId) : undefined;
+    if (!existingReport && !this.storyClusterService.isPrimary(article, cluster)) {
+      console.log(`Article ${articleId} is no longer the primary of story ${cluster!.id}; skipping humanization`);
+      return;
+    }
+
+    // Humanize the article using Gemini, with the rest of the story's coverage
+    const context = { articleId: article.id, sourceId: article.sourceId };
+    const relatedCoverage = await this.storyClusterService.getRelatedCoverage(article);
     const humanizedContent = await humanizeArticle(
       article.title,
       article.rawText,
-      article.url
+      article.url,
+      relatedCoverage,
+      context
     );
 
     // Calculate similarity score
     const similarityScore = await calculateSimilarity(
       article.rawText,
-      humanizedContent.humanizedPlain
+      humanizedContent.humanizedPlain,
+      context
     );
 
-    // Create report
-    await storage.createReport({
-      articleId: article.id,
+    const reportContent = {
       tldr: humanizedContent.tldr,
       bullets: humanizedContent.bullets,
       humanizedHtml: humanizedContent.humanizedHtml,
@@ -171,13 +278,22 @@ export class ArticleWorker {
       checks: {
         factChecks: [],
         quotedTexts: []
-      }
-    });
-
-    // Update article status
-    await storage.updateArticle(article.id, {
-      status: 'humanized'
-    });
+      },
+      ...humanizedContent.provenance
+    };
+
+    if (existingReport) {
+      // The article keeps its status; a published story stays published with the new text
+      await storage.updateReport(existingReport.id, { ...reportContent, needsRehumanization: false });
+    } else {
+      // Create report
+      await storage.createReport({ articleId: article.id, ...reportContent });
+
+      // Update article status
+      await storage.updateArticle(article.id, {
+        status: 'humanized'
+      });
+    }
 
     // Create fact-check job
     await storage.createJob({
@@ -187,6 +303,42 @@ export class ArticleWorker {
     });
   }
 
+  // Paywalled reports are built from the feed description alone and skip fact-checking,
+  // since there is no article text to check against
+  private async summarizePaywalledArticle(article: Article): Promise<void> {
+    const description = article.metadata?.description;
+    if (!description) {
+      throw new Error(`Paywalled article has no feed description: ${article.id}`);
+    }
+
+    const wallType = article.metadata?.accessWall?.type === 'consent' ? 'consent' : 'paywall';
+    const summary = await summarizeFeedDescription(article.title, description, article.url, wallType, {
+      articleId: article.id,
+      sourceId: article.sourceId
+    });
+
+    await storage.createReport({
+      articleId: article.id,
+      tldr: summary.tldr,
+      bullets: summary.bullets,
+      humanizedHtml: summary.humanizedHtml,
+      humanizedPlain: summary.humanizedPlain,
+      entities: summary.entities,
+      aiScore: Math.round(summary.confidence),
+      similarityScore: 0,
+      basis: 'feed-description',
+      checks: {
+        factChecks: [],
+        quotedTexts: []
+      },
+      ...summary.provenance
+    });
+
+    await storage.updateArticle(article.id, {
+      status: 'humanized'
+    });
+  }
+
   private async processFactCheckJob(job: Job): Promise<void> {
     const { articleId } = job.data;
     
@@ -194,29 +346,58 @@ export class ArticleWorker {
       throw new Error('Article ID not provided for fact-check job');
     }
 
-    const articles = await storage.getArticlesByStatus('humanized');
-    const article = articles.find(a => a.id === articleId);
+    // Re-humanized reports may belong to articles that are already published
+    const article = await storage.getArticle(articleId);
     const report = await storage.getReportByArticleId(articleId);
     
     if (!article || !report || !article.rawText) {
       throw new Error(`Article or report not found: ${articleId}`);
     }
 
-    // Perform fact-checking
-    const factChecks = await performFactCheck(
-      article.rawText,
-      report.humanizedPlain || ''
-    );
+    // Figures, dates and names are confirmed against the source by rule; the LLM grades the rest
+    const ruleChecks = this.factVerifier.verify(report.humanizedPlain || '', article.rawText, report.entities);
+
+    let llmChecks: FactCheckResult[] = [];
+    let llmError: string | undefined;
+    try {
+      llmChecks = await performFactCheck(
+        article.rawText,
+        report.humanizedPlain || '',
+        { articleId: article.id, sourceId: article.sourceId }
+      );
+    } catch (error) {
+      llmError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const checks: ReportChecks = {
+      factChecks: ruleChecks.concat(llmChecks),
+      quotedTexts: this.extractQuotes(article.rawText),
+      ...(llmError ? { llmError } : {})
+    };
 
     // Update report with fact-check results
-    await storage.updateReport(report.id, {
-      checks: {
-        factChecks,
-        quotedTexts: this.extractQuotes(article.rawText)
-      }
-    });
+    await storage.updateReport(report.id, { checks });
 
-    console.log(`Completed fact-checking for article ${articleId} with ${factChecks.length} checks`);
+    const unverified = ruleChecks.filter(check => !check.verified).length;
+    console.log(`Completed fact-checking for article ${articleId}: ${ruleChecks.length} rule checks (${unverified} unverified), ${llmChecks.length} LLM checks${llmError ? ', LLM check failed' : ''}`);
+  }
+
+  private async processRecrawlJob(job: Job): Promise<void> {
+    const { articleId } = job.data || {};
+
+    if (!articleId) {
+      throw new Error('Article ID not provided for recrawl job');
+    }
+
+    const article = await storage.getArticle(articleId);
+    if (!article) {
+      throw new Error(`Article not found: ${articleId}`);
+    }
+
+    const text = await this.extractorService.recrawlArticle(article);
+    if (text) {
+      await this.revisionService.applyRecrawl(article, text);
+    }
   }
 
   private extractQuotes(text: string): string[] {
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, real, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,12 +18,23 @@ export const sources = pgTable("sources", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   domain: text("domain").notNull().unique(),
+  type: text("type").notNull().default("rss"), // rss, api, sitemap
   rssUrl: text("rss_url"),
   apiEndpoint: text("api_endpoint"),
+  sitemapUrl: text("sitemap_url"),
+  connectorConfig: jsonb("connector_config").$type<Record<string, any>>().default({}),
   category: text("category").notNull(),
   isActive: boolean("is_active").default(true),
   rateLimitPerHour: integer("rate_limit_per_hour").default(100),
   lastFetchedAt: timestamp("last_fetched_at"),
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  feedTtlMinutes: integer("feed_ttl_minutes"),
+  skipHours: jsonb("skip_hours").$type<number[]>().default([]),
+  fetchStats: jsonb("fetch_stats").$type<SourceFetchStats>(),
+  webSub: jsonb("websub").$type<SourceWebSubSubscription>(),
+  health: jsonb("health").$type<SourceHealth>(),
+  extractionRules: jsonb("extraction_rules").$type<SourceExtractionRules>(),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
   domainIdx: index("sources_domain_idx").on(table.domain),
@@ -42,15 +53,63 @@ export const articles = pgTable("articles", {
   language: text("language").default("en"),
   tags: jsonb("tags").$type<string[]>().default([]),
   category: text("category"),
-  status: text("status").notNull().default("fetched"), // fetched, extracted, humanized, published, rejected
+  status: text("status").notNull().default("fetched"), // fetched, extracted, humanized, published, rejected, duplicate, paywalled, blocked, failed
   redirects: jsonb("redirects").$type<string[]>().default([]),
   metadata: jsonb("metadata").$type<Record<string, any>>().default({}),
+  clusterId: varchar("cluster_id"),
+  minhash: jsonb("minhash").$type<number[]>(), // MinHash signature of title + rawText
+  contentHash: text("content_hash"), // sha256 of the normalized rawText
+  recrawlCount: integer("recrawl_count").default(0), // re-crawl checks scheduled so far
+  revisedAt: timestamp("revised_at"), // last time a re-crawl found a meaningful change
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
   urlIdx: index("articles_url_idx").on(table.url),
   statusIdx: index("articles_status_idx").on(table.status),
   slugIdx: index("articles_slug_idx").on(table.slug),
+  clusterIdx: index("articles_cluster_idx").on(table.clusterId),
+}));
+
+export const storyClusters = pgTable("story_clusters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  primaryArticleId: varchar("primary_article_id").notNull().references(() => articles.id),
+  articleIds: jsonb("article_ids").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Raw HTML as fetched during extraction, kept for debugging and re-extraction
+export const pageSnapshots = pgTable("page_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  articleId: varchar("article_id").notNull().references(() => articles.id),
+  url: text("url").notNull(),
+  pageIndex: integer("page_index").notNull().default(0), // position within a multi-page article
+  statusCode: integer("status_code"),
+  headers: jsonb("headers").$type<Record<string, string>>().default({}),
+  contentHash: text("content_hash").notNull(), // sha256 of the uncompressed HTML
+  htmlGzip: text("html_gzip").notNull(), // gzip-compressed HTML, base64-encoded
+  byteLength: integer("byte_length").notNull(),
+  compressedLength: integer("compressed_length").notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow(),
+}, (table) => ({
+  articleIdx: index("page_snapshots_article_idx").on(table.articleId),
+  fetchedAtIdx: index("page_snapshots_fetched_at_idx").on(table.fetchedAt),
+}));
+
+// Each distinct version of an article's extracted text
+export const articleRevisions = pgTable("article_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  articleId: varchar("article_id").notNull().references(() => articles.id),
+  revision: integer("revision").notNull(), // 1 for the first extraction
+  contentHash: text("content_hash").notNull(),
+  rawText: text("raw_text").notNull(),
+  trigger: text("trigger").notNull(), // extract, reextract, recrawl
+  meaningful: boolean("meaningful").notNull().default(true), // false for cosmetic edits (whitespace, punctuation, a word or two)
+  changeSummary: jsonb("change_summary").$type<{ addedWords: number; removedWords: number; numbersChanged: boolean }>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  articleIdx: index("article_revisions_article_idx").on(table.articleId),
 }));
 
 export const reports = pgTable("reports", {
@@ -65,12 +124,16 @@ export const reports = pgTable("reports", {
     persons: string[];
     places: string[];
   }>().default({ orgs: [], persons: [], places: [] }),
-  checks: jsonb("checks").$type<{
-    factChecks: Array<{ claim: string; verified: boolean; confidence: number }>;
-    quotedTexts: string[];
-  }>().default({ factChecks: [], quotedTexts: [] }),
+  checks: jsonb("checks").$type<ReportChecks>().default({ factChecks: [], quotedTexts: [] }),
   aiScore: integer("ai_score").default(0), // 0-100 confidence score
   similarityScore: integer("similarity_score").default(0), // 0-100 similarity to original
+  basis: text("basis").notNull().default("full-text"), // full-text, feed-description (article was paywalled)
+  needsRehumanization: boolean("needs_rehumanization").default(false), // the article changed after this report was written
+  promptId: varchar("prompt_id"), // prompt template that produced the text
+  promptVersion: integer("prompt_version"),
+  model: text("model"), // provider/model, e.g. gemini/gemini-2.5-pro
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
   reviewedBy: varchar("reviewed_by").references(() => users.id),
   reviewedAt: timestamp("reviewed_at"),
   reviewNotes: text("review_notes"),
@@ -80,10 +143,28 @@ export const reports = pgTable("reports", {
   articleIdx: index("reports_article_idx").on(table.articleId),
 }));
 
+// Versioned system/user prompts per LLM task; one version per name is active
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // humanize, summarize-teaser, fact-check, similarity
+  version: integer("version").notNull(), // 1 for the built-in default
+  systemPrompt: text("system_prompt").notNull(),
+  userPrompt: text("user_prompt").notNull(), // {{variable}} placeholders, {{#variable}}...{{/variable}} sections
+  variables: jsonb("variables").$type<string[]>().default([]),
+  model: text("model"), // target model; empty means the task's configured model
+  responseSchema: jsonb("response_schema").$type<Record<string, any>>().notNull(),
+  isActive: boolean("is_active").notNull().default(false),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  nameVersionIdx: index("prompt_templates_name_version_idx").on(table.name, table.version),
+}));
+
 export const jobs = pgTable("jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   type: text("type").notNull(), // fetch, extract, humanize, publish
-  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed, paused (humanize jobs over the daily LLM budget, extract jobs waiting for an unreachable robots.txt)
   data: jsonb("data").$type<Record<string, any>>().default({}),
   attempts: integer("attempts").default(0),
   maxAttempts: integer("max_attempts").default(3),
@@ -97,6 +178,37 @@ export const jobs = pgTable("jobs", {
   typeIdx: index("jobs_type_idx").on(table.type),
 }));
 
+export const apiUsageCounters = pgTable("api_usage_counters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // newsapi
+  day: text("day").notNull(), // YYYY-MM-DD (UTC)
+  requests: integer("requests").notNull().default(0),
+}, (table) => ({
+  providerDayIdx: index("api_usage_counters_provider_day_idx").on(table.provider, table.day),
+}));
+
+// One row per LLM call, successful or not
+export const llmUsageRecords = pgTable("llm_usage_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  day: text("day").notNull(), // YYYY-MM-DD (UTC)
+  task: text("task").notNull(), // humanize, humanize-chunk, humanize-compose, summarize-teaser, fact-check, similarity
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptId: varchar("prompt_id"),
+  articleId: varchar("article_id").references(() => articles.id),
+  sourceId: varchar("source_id").references(() => sources.id),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull().default(0),
+  costUsd: real("cost_usd").notNull().default(0), // estimated from the model's per-token prices
+  success: boolean("success").notNull().default(true),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  dayIdx: index("llm_usage_records_day_idx").on(table.day),
+  articleIdx: index("llm_usage_records_article_idx").on(table.articleId),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -104,10 +216,28 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+// CSS selectors that override the generic extractor for one publisher
+export const sourceExtractionRulesSchema = z.object({
+  contentSelector: z.string().trim().min(1).optional(),
+  excludeSelectors: z.array(z.string().trim().min(1)).optional(),
+  authorSelector: z.string().trim().min(1).optional(),
+  dateSelector: z.string().trim().min(1).optional(),
+  paginationSelector: z.string().trim().min(1).optional(),
+});
+
 export const insertSourceSchema = createInsertSchema(sources).omit({
   id: true,
   createdAt: true,
   lastFetchedAt: true,
+  etag: true,
+  lastModified: true,
+  feedTtlMinutes: true,
+  skipHours: true,
+  fetchStats: true,
+  webSub: true,
+  health: true,
+}).extend({
+  extractionRules: sourceExtractionRulesSchema.nullish(),
 });
 
 export const insertArticleSchema = createInsertSchema(articles).omit({
@@ -123,7 +253,47 @@ export const insertReportSchema = createInsertSchema(reports).omit({
   updatedAt: true,
 });
 
-export const insertJobSchema = createInsertSchema(jobs).omit({
+export const insertStoryClusterSchema = createInsertSchema(storyClusters, {
+  articleIds: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPageSnapshotSchema = createInsertSchema(pageSnapshots, {
+  headers: z.record(z.string(), z.string()).optional(),
+}).omit({
+  id: true,
+});
+
+export const insertArticleRevisionSchema = createInsertSchema(articleRevisions, {
+  changeSummary: z.object({
+    addedWords: z.number(),
+    removedWords: z.number(),
+    numbersChanged: z.boolean(),
+  }).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates, {
+  variables: z.array(z.string()).optional(),
+  responseSchema: z.record(z.string(), z.any()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLlmUsageRecordSchema = createInsertSchema(llmUsageRecords).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  data: z.record(z.string(), z.any()).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -139,11 +309,120 @@ export type Report = typeof reports.$inferSelect;
 export type InsertReport = z.infer<typeof insertReportSchema>;
 export type Job = typeof jobs.$inferSelect;
 export type InsertJob = z.infer<typeof insertJobSchema>;
+export type ApiUsageCounter = typeof apiUsageCounters.$inferSelect;
+export type StoryCluster = typeof storyClusters.$inferSelect;
+export type InsertStoryCluster = z.infer<typeof insertStoryClusterSchema>;
+export type ArticleRevision = typeof articleRevisions.$inferSelect;
+export type InsertArticleRevision = z.infer<typeof insertArticleRevisionSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type LlmUsageRecord = typeof llmUsageRecords.$inferSelect;
+export type InsertLlmUsageRecord = z.infer<typeof insertLlmUsageRecordSchema>;
+export type PageSnapshot = typeof pageSnapshots.$inferSelect;
+export type InsertPageSnapshot = z.infer<typeof insertPageSnapshotSchema>;
 
 // API Response types
 export type ArticleWithReport = Article & {
   report?: Report;
   source?: Source;
+  alsoCoveredBy?: ClusterCoverage[];
+};
+
+// Another article in the same story cluster
+export type ClusterCoverage = {
+  articleId: string;
+  title: string;
+  url: string;
+  sourceName?: string;
+};
+
+export type ReviewQueueItem = Report & {
+  article: Article;
+  source?: Source;
+  alsoCoveredBy?: ClusterCoverage[];
+};
+
+// "llm" checks are graded by the model; "rule" checks confirm a figure, date or name appears in the source text
+export type FactCheckMethod = 'llm' | 'rule';
+
+export type FactCheckKind = 'number' | 'percentage' | 'currency' | 'date' | 'entity';
+
+export type FactCheckResult = {
+  claim: string;
+  verified: boolean;
+  confidence: number; // 0-100
+  method: FactCheckMethod;
+  kind?: FactCheckKind;
+  context?: string; // sentence of the report the claim was taken from
+  evidence?: string; // matching text in the source article
+};
+
+export type ReportChecks = {
+  factChecks: FactCheckResult[];
+  quotedTexts: string[];
+  llmError?: string; // the LLM fact-check failed; only rule checks are present
+};
+
+export type SourceFetchStats = {
+  totalFetches: number;
+  notModifiedCount: number;
+  bytesDownloaded: number;
+  lastStatus: number;
+  lastItemCount: number;
+  lastDurationMs: number;
+};
+
+export type SourceWebSubSubscription = {
+  hubUrl: string;
+  topicUrl: string;
+  secret: string;
+  state: 'pending' | 'subscribed' | 'unsubscribing' | 'unsubscribed' | 'denied';
+  requestedAt: string;
+  leaseExpiresAt?: string;
+  lastPushAt?: string;
+  deniedReason?: string;
+};
+
+export type SourceHealth = {
+  consecutiveFailures: number;
+  totalFailures: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+  avgLatencyMs: number;
+  avgItemsPerFetch: number;
+  backoffUntil?: string;
+  disabledAt?: string;
+};
+
+export type SourceExtractionRules = z.infer<typeof sourceExtractionRulesSchema>;
+
+export type ExtractionPreview = {
+  url?: string;
+  title?: string;
+  text: string;
+  blockCount: number;
+  method: 'rules' | 'readability';
+  authors: string[];
+  publishedAt?: string;
+  imageUrl?: string;
+  nextPageUrl?: string;
+  warnings: string[];
+};
+
+// A prompt name with its stored versions, newest first
+export type PromptSummary = {
+  name: string;
+  variables: string[];
+  versions: PromptTemplate[];
+};
+
+// Snapshot listing without the (large) compressed HTML
+export type PageSnapshotSummary = Omit<PageSnapshot, 'htmlGzip'>;
+
+export type SourceWithStats = Source & {
+  articleCount: number;
+  errorCount: number;
 };
 
 export type DashboardStats = {
@@ -160,10 +439,55 @@ export type QueueStatus = {
   factCheckers: number;
 };
 
+export type SourceHealthStatus = 'healthy' | 'degraded' | 'backing-off' | 'disabled';
+
+export type SourceHealthSummary = {
+  healthy: number;
+  degraded: number;
+  backingOff: number;
+  disabled: number;
+  failureThreshold: number;
+  sources: Array<{
+    id: string;
+    name: string;
+    status: SourceHealthStatus;
+    health: SourceHealth | null;
+  }>;
+};
+
+// LLM calls summed over one group (a day, task, model or source)
+export type LlmUsageTotals = {
+  key: string | null;
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+};
+
+export type LlmUsageGroup = 'day' | 'task' | 'model' | 'sourceId';
+
+export type LlmBudgetStatus = {
+  day: string;
+  costUsd: number;
+  tokens: number;
+  dailyCostBudgetUsd: number | null;
+  dailyTokenBudget: number | null;
+  // Humanize jobs are paused until the next UTC day once a budget is used up
+  exceeded: boolean;
+  resumesAt?: string;
+};
+
 export type ApiUsage = {
-  geminiCalls: number;
-  geminiLimit: number;
+  llm: {
+    today: LlmUsageTotals;
+    budget: LlmBudgetStatus;
+    daily: LlmUsageTotals[]; // last 30 days, oldest first, days without calls included
+    byTask: LlmUsageTotals[];
+    byModel: LlmUsageTotals[];
+    bySource: Array<LlmUsageTotals & { sourceName?: string }>;
+  };
   newsApiRequests: number;
   newsApiLimit: number;
-  mongoOperations: number;
 };